@@ -0,0 +1,60 @@
+export const ARCHIVE_MAGIC = "GFCA";
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_EXTENSION = ".gfcache";
+
+export interface ArchiveEntry { url: string; sourceUrl?: string; mimeType: string; size: number; offset: number; cachedAt: number; lastAccessed: number; hits: number; favorite: boolean; }
+export interface ArchiveManifest { version: number; exportedAt: number; entries: ArchiveEntry[]; }
+
+export function packArchive(items: { entry: Omit<ArchiveEntry, "size" | "offset">; blob: Blob; }[], exportedAt: number): File {
+    const entries: ArchiveEntry[] = [];
+    let offset = 0;
+    for (const { entry, blob } of items) {
+        entries.push({ ...entry, size: blob.size, offset });
+        offset += blob.size;
+    }
+
+    const manifest = new TextEncoder().encode(JSON.stringify({ version: ARCHIVE_VERSION, exportedAt, entries } satisfies ArchiveManifest));
+    const header = new Uint8Array(8);
+    header.set(new TextEncoder().encode(ARCHIVE_MAGIC));
+    new DataView(header.buffer).setUint32(4, manifest.byteLength, true);
+
+    const name = `gif-cache-${new Date(exportedAt).toISOString().slice(0, 10)}${ARCHIVE_EXTENSION}`;
+    return new File([header, manifest, ...items.map(item => item.blob)], name, { type: "application/octet-stream" });
+}
+
+function isCount(value: unknown): value is number {
+    return typeof value === "number" && Number.isSafeInteger(value) && value >= 0;
+}
+
+export function isValidArchiveEntry(value: unknown, dataSize: number): value is ArchiveEntry {
+    if (typeof value !== "object" || value === null) return false;
+    const e = value as Record<keyof ArchiveEntry, unknown>;
+    return typeof e.url === "string" && /^https?:\/\//.test(e.url)
+        && (e.sourceUrl === undefined || typeof e.sourceUrl === "string" && /^https?:\/\//.test(e.sourceUrl))
+        && typeof e.mimeType === "string"
+        && isCount(e.size) && e.size > 0
+        && isCount(e.offset) && e.offset + e.size <= dataSize
+        && Number.isFinite(e.cachedAt) && Number.isFinite(e.lastAccessed)
+        && isCount(e.hits)
+        && typeof e.favorite === "boolean";
+}
+
+export async function readArchiveManifest(file: Blob): Promise<{ manifest: ArchiveManifest; dataStart: number; }> {
+    if (file.size < 8) throw new Error("File is too small to be a GIF cache archive");
+    const header = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+    if (new TextDecoder().decode(header.subarray(0, 4)) !== ARCHIVE_MAGIC) throw new Error("Not a GIF cache archive");
+
+    const manifestSize = new DataView(header.buffer).getUint32(4, true);
+    const dataStart = 8 + manifestSize;
+    if (dataStart > file.size) throw new Error("Archive manifest is truncated");
+
+    let manifest: ArchiveManifest;
+    try {
+        manifest = JSON.parse(await file.slice(8, dataStart).text());
+    } catch {
+        throw new Error("Archive manifest is corrupt");
+    }
+    if (manifest?.version !== ARCHIVE_VERSION) throw new Error(`Unsupported archive version: ${manifest?.version}`);
+    if (!Array.isArray(manifest.entries)) throw new Error("Archive manifest has no entries");
+    return { manifest, dataStart };
+}
@@ -0,0 +1,721 @@
+export const HOUR = 3_600_000;
+const QUOTA_RETRIES = 3;
+
+export interface MetaEntry {
+    url: string;
+    size: number;
+    mimeType: string;
+    cachedAt: number;
+    lastAccessed: number;
+    hits: number;
+    favorite: 0 | 1;
+    pinned?: 0 | 1;
+    hash?: string;
+    sourceUrl?: string;
+    fetchedVia?: string;
+    tier?: "seen";
+    sightings?: number[];
+    orphanedAt?: number;
+}
+
+export interface HostRule {
+    host: string;
+    action: "allow" | "deny";
+    maxBytes: number;
+    keepQuery: boolean;
+    unwrap: string;
+    unwrapTemplate: string;
+}
+
+const DISCORD_PROXY_UNWRAP = "^https?://[^/]+/external/[^/]+/(https?)/([^?]+)(\\?.*)?$";
+
+export const DEFAULT_HOST_RULES: HostRule[] = [
+    { host: "*.discordapp.net", action: "allow", maxBytes: 0, keepQuery: false, unwrap: DISCORD_PROXY_UNWRAP, unwrapTemplate: "$1://$2$3" },
+    { host: "*.discord.com", action: "allow", maxBytes: 0, keepQuery: false, unwrap: DISCORD_PROXY_UNWRAP, unwrapTemplate: "$1://$2$3" },
+];
+
+export type MediaFormat = "gif" | "mp4" | "webm";
+export type MediaKind = "image" | "video";
+
+export const FORMAT_MIME_TYPES: Record<MediaFormat, string> = { gif: "image/gif", mp4: "video/mp4", webm: "video/webm" };
+const TENOR_FORMAT_CODES: Record<MediaFormat, string> = { gif: "AAAAC", mp4: "AAAPo", webm: "AAAPs" };
+const TENOR_VARIANT_PATH = /^\/([A-Za-z0-9_-]{11})(?:AAA[A-Za-z0-9_-]{2})?\/([^/]+?)(?:\.(gif|mp4|webm))?$/;
+const VARIANT_PARAMS = ["format"];
+const VOLATILE_PARAMS = ["ex", "is", "hm"];
+const RESIZE_PARAMS = ["width", "height", "quality"];
+const RESIZING_HOSTS = /^media\.discordapp\.net$/;
+
+export const PARKED_SRC = "data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+
+export type DownloadLane = "visible" | "frequent" | "background";
+export type ServeSource = "memory" | "db" | "network";
+export interface FetchResult { blob: Blob; strategy: string; }
+
+export interface Clock { now(): number; }
+
+export interface EngineStorage {
+    getBlob(key: string): Promise<Blob | undefined>;
+    has(key: string): Promise<boolean>;
+    put(key: string, blob: Blob, overrides: Partial<MetaEntry>): Promise<void>;
+    delete(key: string): Promise<void>;
+    getAllMeta(): Promise<MetaEntry[]>;
+}
+
+export interface Fetcher {
+    fetch(key: string, rawUrl: string, lane: DownloadLane): Promise<FetchResult>;
+    promote?(key: string, lane: DownloadLane): void;
+}
+
+export interface MediaElement {
+    readonly tagName: string;
+    getAttribute(name: string): string | null;
+    setAttribute(name: string, value: string): void;
+}
+
+export interface DomAdapter {
+    mediaElements(): Iterable<MediaElement>;
+    createObjectUrl(blob: Blob): string;
+    revokeObjectUrl(url: string): void;
+}
+
+export interface CachePolicy {
+    maxEntries(): number;
+    byteBudget(cacheBytes: number): Promise<number>;
+    isFavorite(key: string): boolean;
+    isPinned(key: string): boolean;
+    isBackedOff(key: string): boolean;
+    lastAccessed(entry: MetaEntry): number;
+    tierWeight(entry: MetaEntry): number;
+    memoryBudget(): number;
+    inUseUrls?(): Set<string>;
+    beforePrune?(): Promise<void>;
+}
+
+export interface EngineEvents {
+    accessed?(key: string): void;
+    served?(source: ServeSource, bytes: number): void;
+    loaded?(key: string, blob: Blob): void;
+    downloaded?(key: string, rawUrl: string, strategy: string, persisted: boolean): void;
+    failed?(key: string, rawUrl: string, error: unknown): void;
+}
+
+export interface EngineOptions {
+    storage: EngineStorage;
+    fetcher: Fetcher;
+    clock: Clock;
+    dom: DomAdapter;
+    policy: CachePolicy;
+    hostRules(): HostRule[];
+    preferredFormat(): MediaFormat;
+    events?: EngineEvents;
+    lock?<T>(key: string, task: () => Promise<T>): Promise<T>;
+}
+
+const RULE_REGEX_CACHE = new Map<string, RegExp | null>();
+const RULE_REGEX_CACHE_LIMIT = 64;
+
+export function compileRuleRegex(source: string, glob: boolean): RegExp | null {
+    const cacheKey = `${glob}:${source}`;
+    if (RULE_REGEX_CACHE.has(cacheKey)) {
+        const cached = RULE_REGEX_CACHE.get(cacheKey)!;
+        RULE_REGEX_CACHE.delete(cacheKey);
+        RULE_REGEX_CACHE.set(cacheKey, cached);
+        return cached;
+    }
+    let regex: RegExp | null = null;
+    try {
+        regex = glob
+            ? new RegExp("^" + source.split("*").map(part => part.replace(/[.+?^$()|[\]{}\\]/g, "\\$&")).join(".*") + "$", "i")
+            : new RegExp(source);
+    } catch {
+        console.warn("[GifFavCache] Invalid host rule pattern:", source);
+    }
+    RULE_REGEX_CACHE.set(cacheKey, regex);
+    if (RULE_REGEX_CACHE.size > RULE_REGEX_CACHE_LIMIT) RULE_REGEX_CACHE.delete(RULE_REGEX_CACHE.keys().next().value!);
+    return regex;
+}
+
+export function matchHostRule(rules: HostRule[], host: string): { rule: HostRule; index: number; } | null {
+    if (!host) return null;
+    for (let index = 0; index < rules.length; index++) {
+        const rule = rules[index];
+        if (rule.host.startsWith("*.") && host === rule.host.slice(2)) return { rule, index };
+        if (compileRuleRegex(rule.host, true)?.test(host)) return { rule, index };
+    }
+    return null;
+}
+
+export function normalizeUrl(url: string): string {
+    return url.startsWith("//") ? "https:" + url : url;
+}
+
+export function hostOf(url: string): string {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return "unknown";
+    }
+}
+
+export function tenorVariantUrl(url: string): string | null {
+    try {
+        const u = new URL(url);
+        if (!/\.tenor\.com$/.test(u.hostname)) return null;
+        const m = u.pathname.match(/^\/(?:m\/)?([A-Za-z0-9_-]+)\/([^/]+)$/);
+        if (!m) return null;
+        const rewritten = `https://media.tenor.com/${m[1]}/${m[2]}`;
+        return rewritten === url ? null : rewritten;
+    } catch {
+        return null;
+    }
+}
+
+export function formatOf(url: string): MediaFormat | null {
+    try {
+        const u = new URL(url);
+        const format = u.searchParams.get("format") ?? u.pathname.split(".").pop();
+        return format && Object.keys(FORMAT_MIME_TYPES).includes(format) ? format as MediaFormat : null;
+    } catch {
+        return null;
+    }
+}
+
+export function mediaKindOf(mimeType: string): MediaKind {
+    return mimeType.startsWith("video/") ? "video" : "image";
+}
+
+export function elementKind(el: MediaElement): MediaKind {
+    return el.tagName === "IMG" ? "image" : "video";
+}
+
+export function variantFamilyKey(url: string): string | null {
+    try {
+        const u = new URL(url);
+        if (!/(^|\.)tenor\.com$/.test(u.hostname)) return null;
+        const m = u.pathname.match(TENOR_VARIANT_PATH);
+        return m ? `https://media.tenor.com/${m[1]}/${m[2]}` : null;
+    } catch {
+        return null;
+    }
+}
+
+export function variantUrl(url: string, format: MediaFormat): string | null {
+    try {
+        const u = new URL(url);
+        const tenor = /(^|\.)tenor\.com$/.test(u.hostname) && u.pathname.match(TENOR_VARIANT_PATH);
+        if (tenor) return `https://media.tenor.com/${tenor[1]}${TENOR_FORMAT_CODES[format]}/${tenor[2]}.${format}`;
+        if (!u.searchParams.has("format") || !u.pathname.endsWith(`.${format}`)) return null;
+        for (const param of VARIANT_PARAMS) u.searchParams.delete(param);
+        return u.href;
+    } catch {
+        return null;
+    }
+}
+
+function resizeBounds(url: string): { base: string; width: number; height: number; } | null {
+    try {
+        const u = new URL(url);
+        if (!RESIZING_HOSTS.test(u.hostname)) return null;
+        const width = Number(u.searchParams.get("width")) || Infinity;
+        const height = Number(u.searchParams.get("height")) || Infinity;
+        for (const param of RESIZE_PARAMS) u.searchParams.delete(param);
+        return { base: u.href, width, height };
+    } catch {
+        return null;
+    }
+}
+
+export function sizeVariantBase(key: string): string {
+    return resizeBounds(key)?.base ?? key;
+}
+
+export function pickSizeVariant(key: string, candidates: Iterable<string>): string | null {
+    const requested = resizeBounds(key);
+    if (!requested) return null;
+    let best: string | null = null;
+    let bestArea = Infinity;
+    for (const candidate of candidates) {
+        const bounds = resizeBounds(candidate);
+        if (!bounds || bounds.base !== requested.base || bounds.width < requested.width || bounds.height < requested.height) continue;
+        const area = bounds.width * bounds.height;
+        if (!best || area < bestArea) {
+            best = candidate;
+            bestArea = area;
+        }
+    }
+    return best;
+}
+
+export function kindVariantBase(key: string): string {
+    return key.replace(/#(?:image|video)$/, "");
+}
+
+export function kindOfKey(key: string): MediaKind | undefined {
+    return key.match(/#(image|video)$/)?.[1] as MediaKind | undefined;
+}
+
+export function isAbortError(e: unknown): boolean {
+    return e instanceof DOMException && e.name === "AbortError";
+}
+
+function isQuotaError(e: unknown): boolean {
+    return e instanceof DOMException && (e.name === "QuotaExceededError" || e.name === "NS_ERROR_DOM_QUOTA_REACHED");
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes === 0) return "0 B";
+    const k = 1024;
+    const sizes = ["B", "KB", "MB", "GB"];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+}
+
+export function storedBytes(entries: Pick<MetaEntry, "size" | "hash">[]): number {
+    const seen = new Set<string>();
+    let bytes = 0;
+    for (const entry of entries) {
+        if (entry.hash) {
+            if (seen.has(entry.hash)) continue;
+            seen.add(entry.hash);
+        }
+        bytes += entry.size;
+    }
+    return bytes;
+}
+
+export class GifCacheEngine {
+    readonly memory = new Map<string, string>();
+    readonly sizes = new Map<string, number>();
+    readonly reverse = new Map<string, string>();
+    readonly pending = new Map<string, Promise<string | null>>();
+    readonly mimeTypes = new Map<string, string>();
+    readonly sources = new Map<string, string>();
+    private readonly sizeVariants = new Map<string, Set<string>>();
+    private readonly originals = new WeakMap<MediaElement, string>();
+    private readonly selfSwapped = new WeakSet<MediaElement>();
+
+    constructor(private readonly options: EngineOptions) { }
+
+    private get events(): EngineEvents {
+        return this.options.events ?? {};
+    }
+
+    private withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+        return this.options.lock ? this.options.lock(key, task) : task();
+    }
+
+    matchHostRule(host: string): { rule: HostRule; index: number; } | null {
+        return matchHostRule(this.options.hostRules(), host);
+    }
+
+    extractProxiedUrl(url: string): string | null {
+        const rule = this.matchHostRule(hostOf(url))?.rule;
+        if (!rule?.unwrap) return null;
+        const m = compileRuleRegex(rule.unwrap, false)?.exec(url);
+        if (!m) return null;
+        const unwrapped = rule.unwrapTemplate.replace(/\$(\d)/g, (_, i) => m[Number(i)] ?? "");
+        return /^https?:\/\//.test(unwrapped) ? unwrapped : null;
+    }
+
+    canonicalUrl(url: string): string {
+        const n = normalizeUrl(url);
+        const extracted = this.extractProxiedUrl(n) ?? n;
+        const family = variantFamilyKey(extracted);
+        if (family) return family;
+        try {
+            const u = new URL(extracted);
+            const keep = this.matchHostRule(u.hostname)?.rule.keepQuery
+                ? (param: string) => !VARIANT_PARAMS.includes(param) && !VOLATILE_PARAMS.includes(param)
+                : (param: string) => RESIZING_HOSTS.test(u.hostname) && RESIZE_PARAMS.includes(param);
+            for (const param of new Set(u.searchParams.keys())) {
+                if (!keep(param)) u.searchParams.delete(param);
+            }
+            u.searchParams.sort();
+            return `${u.origin}${u.pathname}${u.search}`;
+        } catch {
+            return extracted;
+        }
+    }
+
+    mediaKindOfUrl(url: string): MediaKind | null {
+        const n = normalizeUrl(url);
+        const format = formatOf(this.extractProxiedUrl(n) ?? n);
+        return format ? mediaKindOf(FORMAT_MIME_TYPES[format]) : null;
+    }
+
+    keyFor(rawUrl: string, kind?: MediaKind | null): string {
+        const key = this.canonicalUrl(rawUrl);
+        const format = this.options.preferredFormat();
+        if (!kind || kind === mediaKindOf(FORMAT_MIME_TYPES[format])) return key;
+        const n = normalizeUrl(rawUrl);
+        const upstream = this.extractProxiedUrl(n) ?? n;
+        return formatOf(upstream) !== format && variantUrl(upstream, format) ? `${key}#${kind}` : key;
+    }
+
+    memoryKey(key: string): string | null {
+        if (this.memory.has(key)) return key;
+        const variants = this.sizeVariants.get(sizeVariantBase(key));
+        return variants ? pickSizeVariant(key, variants) : null;
+    }
+
+    servesKind(key: string, kind: MediaKind | null): boolean {
+        const mimeType = this.mimeTypes.get(key);
+        return !kind || !mimeType || mediaKindOf(mimeType) === kind;
+    }
+
+    swapElement(el: MediaElement, url: string) {
+        const src = el.getAttribute("src");
+        if (src === url) return;
+        if (src && this.isCacheable(src)) this.originals.set(el, src);
+        this.selfSwapped.add(el);
+        el.setAttribute("src", url);
+    }
+
+    consumeSelfSwap(el: MediaElement): boolean {
+        return this.selfSwapped.delete(el);
+    }
+
+    originalSrc(el: MediaElement): string | undefined {
+        return this.originals.get(el);
+    }
+
+    park(el: MediaElement): boolean {
+        const src = el.getAttribute("src");
+        if (elementKind(el) !== "image" || !src || !this.reverse.has(src) || !this.originals.has(el)) return false;
+        el.setAttribute("src", PARKED_SRC);
+        return true;
+    }
+
+    async revive(el: MediaElement): Promise<void> {
+        const original = this.originals.get(el);
+        const src = el.getAttribute("src");
+        if (!original || !src || (src !== PARKED_SRC && (!src.startsWith("blob:") || this.reverse.has(src)))) return;
+        const objUrl = await this.materialize(this.keyFor(original, elementKind(el)), original);
+        if (el.getAttribute("src") === src) this.swapElement(el, objUrl ?? original);
+    }
+
+    memoryBytes(): number {
+        let bytes = 0;
+        for (const size of this.sizes.values()) bytes += size;
+        return bytes;
+    }
+
+    markUsed(key: string) {
+        const objUrl = this.memory.get(key);
+        if (!objUrl) return;
+        this.memory.delete(key);
+        this.memory.set(key, objUrl);
+    }
+
+    trimMemory(incomingBytes = 0) {
+        const budget = this.options.policy.memoryBudget();
+        let total = this.memoryBytes() + incomingBytes;
+        if (total <= budget) return;
+        const inUse = this.options.policy.inUseUrls?.() ?? new Set<string>();
+        let released = 0;
+        for (const [key, objUrl] of this.memory) {
+            if (total <= budget) break;
+            if (inUse.has(objUrl)) continue;
+            total -= this.sizes.get(key) ?? 0;
+            this.forget(key);
+            released++;
+        }
+        if (released) console.log(`[GifFavCache] Released ${released} object URLs from memory (${formatBytes(total - incomingBytes)} still held)`);
+    }
+
+    private isDisplayed(key: string): boolean {
+        for (const el of this.options.dom.mediaElements()) {
+            const src = el.getAttribute("src");
+            if (!src || !this.isCacheable(src)) continue;
+            const elKey = this.keyFor(src, elementKind(el));
+            if (elKey === key || pickSizeVariant(elKey, [key])) return true;
+        }
+        return false;
+    }
+
+    isCacheable(url: string): boolean {
+        if (!url || url.startsWith("blob:") || url.startsWith("data:")) return false;
+        const n = normalizeUrl(url);
+        const upstream = this.extractProxiedUrl(n);
+        return this.matchHostRule(hostOf(n))?.rule.action !== "deny"
+            && (!upstream || this.matchHostRule(hostOf(upstream))?.rule.action !== "deny");
+    }
+
+    hostByteLimit(url: string): number {
+        const upstream = this.extractProxiedUrl(url);
+        const limits = [url, upstream]
+            .map(u => u ? this.matchHostRule(hostOf(u))?.rule.maxBytes ?? 0 : 0)
+            .filter(limit => limit > 0);
+        return limits.length ? Math.min(...limits) : 0;
+    }
+
+    remember(key: string, blob: Blob, sourceUrl?: string): string {
+        const previous = this.memory.get(key);
+        if (previous) {
+            this.options.dom.revokeObjectUrl(previous);
+            this.reverse.delete(previous);
+            this.memory.delete(key);
+            this.sizes.delete(key);
+        }
+        this.trimMemory(blob.size);
+        const objUrl = this.options.dom.createObjectUrl(blob);
+        this.memory.set(key, objUrl);
+        this.sizes.set(key, blob.size);
+        this.mimeTypes.set(key, blob.type);
+        if (sourceUrl) this.sources.set(key, sourceUrl);
+        const bounds = resizeBounds(key);
+        if (bounds) {
+            const variants = this.sizeVariants.get(bounds.base) ?? new Set<string>();
+            this.sizeVariants.set(bounds.base, variants.add(key));
+        }
+        this.reverse.set(objUrl, key);
+        return objUrl;
+    }
+
+    cache(rawUrl: string, lane: DownloadLane = "visible", tier?: MetaEntry["tier"], kind?: MediaKind | null): Promise<string | null> {
+        if (!this.isCacheable(rawUrl)) return Promise.resolve(null);
+        const key = this.keyFor(rawUrl, kind);
+
+        const cachedKey = this.memoryKey(key);
+        if (cachedKey) {
+            this.markUsed(cachedKey);
+            this.events.accessed?.(cachedKey);
+            return Promise.resolve(this.memory.get(cachedKey)!);
+        }
+
+        const pending = this.pending.get(key);
+        if (pending) {
+            this.options.fetcher.promote?.(key, lane);
+            return lane === "visible" ? pending.then(objUrl => objUrl ?? this.materialize(key)) : pending;
+        }
+        if (this.options.policy.isBackedOff(key)) return Promise.resolve(null);
+
+        const promise = (async () => {
+            try {
+                return await this.withLock(key, () => this.load(key, rawUrl, lane, tier));
+            } catch (e) {
+                if (isAbortError(e)) return null;
+                console.warn("[GifFavCache] Failed to cache:", key, e);
+                this.events.failed?.(key, rawUrl, e);
+                return null;
+            } finally {
+                this.pending.delete(key);
+            }
+        })();
+
+        this.pending.set(key, promise);
+        return promise;
+    }
+
+    async materialize(key: string, sourceUrl?: string): Promise<string | null> {
+        const cachedKey = this.memoryKey(key);
+        if (cachedKey) {
+            this.markUsed(cachedKey);
+            return this.memory.get(cachedKey)!;
+        }
+        const stored = await this.options.storage.getBlob(key);
+        return stored ? this.serveStored(key, stored, sourceUrl) : null;
+    }
+
+    private serveStored(key: string, blob: Blob, sourceUrl?: string): string {
+        const objUrl = this.remember(key, blob, sourceUrl);
+        this.events.served?.("db", blob.size);
+        this.events.accessed?.(key);
+        this.events.loaded?.(key, blob);
+        return objUrl;
+    }
+
+    private async load(key: string, rawUrl: string, lane: DownloadLane, tier?: MetaEntry["tier"]): Promise<string | null> {
+        if (lane !== "visible" && await this.options.storage.has(key) && !this.isDisplayed(key)) return null;
+        const wanted = lane === "visible" || this.isDisplayed(key);
+        const stored = await this.options.storage.getBlob(key);
+        if (stored) {
+            if (!wanted) return null;
+            const objUrl = this.serveStored(key, stored, rawUrl);
+            if (lane !== "visible") this.swapAllMatching(key, objUrl);
+            return objUrl;
+        }
+
+        const variant = wanted && resizeBounds(key) && pickSizeVariant(key, (await this.options.storage.getAllMeta()).map(entry => entry.url));
+        const larger = variant && await this.options.storage.getBlob(variant);
+        if (variant && larger) return this.serveStored(variant, larger);
+
+        const { blob, strategy } = await this.fetchPreferred(key, rawUrl, lane);
+        let persisted = false;
+        if (!await this.prune(blob.size)) {
+            console.warn("[GifFavCache] Too large for the cache budget, keeping in memory only:", key, formatBytes(blob.size));
+        } else if (!await this.store(key, blob, { sourceUrl: rawUrl, fetchedVia: strategy, tier: this.options.policy.isFavorite(key) ? undefined : tier })) {
+            console.warn("[GifFavCache] Could not persist, keeping in memory only:", key);
+        } else {
+            persisted = true;
+        }
+        this.events.served?.("network", blob.size);
+        this.events.downloaded?.(key, rawUrl, strategy, persisted);
+        this.events.loaded?.(key, blob);
+        console.log(`[GifFavCache] Cached via ${strategy}:`, key);
+        if (persisted && !wanted) return null;
+        const objUrl = this.remember(key, blob, rawUrl);
+        this.events.accessed?.(key);
+        this.swapAllMatching(key, objUrl);
+        return objUrl;
+    }
+
+    async fetchPreferred(key: string, rawUrl: string, lane: DownloadLane): Promise<FetchResult> {
+        const format = this.options.preferredFormat();
+        const upstream = this.extractProxiedUrl(normalizeUrl(rawUrl)) ?? normalizeUrl(rawUrl);
+        const preferred = !kindOfKey(key) && formatOf(upstream) !== format && variantUrl(upstream, format);
+        if (preferred) {
+            try {
+                return await this.options.fetcher.fetch(key, preferred, lane);
+            } catch (e) {
+                if (isAbortError(e)) throw e;
+                console.warn(`[GifFavCache] No ${format} variant, falling back to`, rawUrl, e);
+            }
+        }
+        return this.options.fetcher.fetch(key, rawUrl, lane);
+    }
+
+    async store(key: string, blob: Blob, overrides: Partial<MetaEntry> = {}): Promise<boolean> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await this.options.storage.put(key, blob, overrides);
+                return true;
+            } catch (e) {
+                if (!isQuotaError(e) || attempt > QUOTA_RETRIES) return false;
+                const target = blob.size * 2 ** attempt;
+                console.warn(`[GifFavCache] Storage quota exceeded, evicting ${formatBytes(target)} and retrying (${attempt}/${QUOTA_RETRIES})`);
+                const all = await this.options.storage.getAllMeta();
+                const freed = await this.evictWhile(all, freedBytes => freedBytes < target);
+                if (!freed) return false;
+            }
+        }
+    }
+
+    evictionScore(entry: MetaEntry, now: number): number {
+        const { policy } = this.options;
+        const idleHours = Math.max(0, now - policy.lastAccessed(entry)) / HOUR;
+        const sizeWeight = Math.log2(2 + entry.size / 1024);
+        return (1 + idleHours) * sizeWeight * policy.tierWeight(entry);
+    }
+
+    async evictWhile(entries: MetaEntry[], shouldEvict: (freedBytes: number, evicted: number) => boolean): Promise<number> {
+        const now = this.options.clock.now();
+        const sorted = entries
+            .filter(entry => !this.options.policy.isPinned(entry.url))
+            .sort((a, b) => this.evictionScore(b, now) - this.evictionScore(a, now));
+        const refs = new Map<string, number>();
+        for (const entry of entries) if (entry.hash) refs.set(entry.hash, (refs.get(entry.hash) ?? 0) + 1);
+
+        let freed = 0;
+        let evicted = 0;
+        for (const entry of sorted) {
+            if (!shouldEvict(freed, evicted)) break;
+            await this.options.storage.delete(entry.url);
+            evicted++;
+            const remaining = entry.hash ? refs.get(entry.hash)! - 1 : 0;
+            if (entry.hash) refs.set(entry.hash, remaining);
+            if (!remaining) freed += entry.size;
+        }
+        if (evicted) console.log(`[GifFavCache] Evicted ${evicted} entries (${formatBytes(freed)})`);
+        return freed;
+    }
+
+    async prune(incomingBytes = 0): Promise<boolean> {
+        const { policy, storage } = this.options;
+        await policy.beforePrune?.();
+        const all = await storage.getAllMeta();
+        const totalBytes = storedBytes(all);
+        const byteBudget = await policy.byteBudget(totalBytes);
+        if (incomingBytes > byteBudget) return false;
+
+        const maxEntries = policy.maxEntries() - (incomingBytes ? 1 : 0);
+        await this.evictWhile(all, (freed, evicted) =>
+            all.length - evicted > maxEntries || totalBytes - freed + incomingBytes > byteBudget
+        );
+        return true;
+    }
+
+    isOrphaned(entry: MetaEntry): boolean {
+        return !!entry.orphanedAt && !this.options.policy.isFavorite(entry.url);
+    }
+
+    isSeenTier(entry: MetaEntry): boolean {
+        return entry.tier === "seen" && !entry.favorite && !this.options.policy.isFavorite(entry.url);
+    }
+
+    expiredOrphans(entries: MetaEntry[], cutoff: number): MetaEntry[] {
+        return entries.filter(entry => this.isOrphaned(entry) && entry.orphanedAt! <= cutoff && !this.options.policy.isPinned(entry.url));
+    }
+
+    async pruneSeenTier(entries: MetaEntry[], ttl: number, maxBytes: number): Promise<void> {
+        const seen = entries.filter(entry => this.isSeenTier(entry));
+        if (!seen.length) return;
+
+        const now = this.options.clock.now();
+        const expired = seen.filter(entry => now - this.options.policy.lastAccessed(entry) > ttl);
+        if (expired.length) await this.evictWhile(expired, () => true);
+
+        const live = seen.filter(entry => !expired.includes(entry));
+        const liveBytes = storedBytes(live);
+        await this.evictWhile(live, freed => liveBytes - freed > maxBytes);
+    }
+
+    swapAllMatching(key: string, objUrl: string) {
+        for (const el of this.options.dom.mediaElements()) {
+            const src = el.getAttribute("src");
+            if (!src) continue;
+            if (src !== objUrl && this.memoryKey(this.keyFor(src, elementKind(el))) === key && this.servesKind(key, elementKind(el))) {
+                this.swapElement(el, objUrl);
+            }
+        }
+    }
+
+    restoreElements(objUrl: string, sourceUrl?: string) {
+        for (const el of this.options.dom.mediaElements()) {
+            const original = this.originals.get(el) ?? sourceUrl;
+            if (original && el.getAttribute("src") === objUrl) el.setAttribute("src", original);
+        }
+    }
+
+    swapAllToOriginal() {
+        for (const el of this.options.dom.mediaElements()) {
+            const src = el.getAttribute("src");
+            const key = src && this.reverse.get(src);
+            const original = this.originals.get(el) ?? (key && this.sources.get(key));
+            if (src && original && (this.reverse.has(src) || src === PARKED_SRC || src.startsWith("blob:"))) {
+                el.setAttribute("src", original);
+            }
+        }
+    }
+
+    release(key: string) {
+        const objUrl = this.memory.get(key);
+        if (objUrl) this.restoreElements(objUrl, this.sources.get(key));
+        this.forget(key);
+    }
+
+    private forget(key: string) {
+        const objUrl = this.memory.get(key);
+        if (objUrl) {
+            this.options.dom.revokeObjectUrl(objUrl);
+            this.reverse.delete(objUrl);
+            this.memory.delete(key);
+        }
+        this.sizes.delete(key);
+        this.mimeTypes.delete(key);
+        this.sources.delete(key);
+        this.sizeVariants.get(sizeVariantBase(key))?.delete(key);
+    }
+
+    revokeAll() {
+        for (const objUrl of this.memory.values()) {
+            this.options.dom.revokeObjectUrl(objUrl);
+            this.reverse.delete(objUrl);
+        }
+        this.memory.clear();
+        this.sizes.clear();
+        this.mimeTypes.clear();
+        this.sources.clear();
+        this.sizeVariants.clear();
+    }
+}
@@ -0,0 +1,128 @@
+import { FetchResult, formatBytes, hostOf, isAbortError, normalizeUrl } from "./engine";
+
+export class FetchError extends Error {
+    constructor(message: string, readonly status?: number, readonly permanent = false) {
+        super(message);
+        this.name = "FetchError";
+    }
+}
+
+export interface FetchStrategy {
+    name: string;
+    native: boolean;
+    target(url: string): string | null;
+    fetch(url: string, signal: AbortSignal): Promise<Blob>;
+}
+
+export interface FetchAttemptStats { ok: number; failed: number; lastError?: string; }
+
+export interface MediaFetcherOptions {
+    strategies: FetchStrategy[];
+    hostByteLimit(url: string): number;
+}
+
+export async function browserFetch(url: string, signal: AbortSignal): Promise<Blob> {
+    const res = await fetch(url, { mode: "cors", signal });
+    if (!res.ok) throw new FetchError(`HTTP ${res.status}`, res.status);
+    return res.blob();
+}
+
+function hasBytes(bytes: Uint8Array, offset: number, expected: number[] | string): boolean {
+    const values = typeof expected === "string" ? [...expected].map(c => c.charCodeAt(0)) : expected;
+    return values.every((v, i) => bytes[offset + i] === v);
+}
+
+export async function sniffMediaType(blob: Blob): Promise<string | null> {
+    const head = new Uint8Array(await blob.slice(0, 16).arrayBuffer());
+    if (hasBytes(head, 0, "GIF87a") || hasBytes(head, 0, "GIF89a")) return "image/gif";
+    if (hasBytes(head, 0, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) return "image/png";
+    if (hasBytes(head, 0, [0xFF, 0xD8, 0xFF])) return "image/jpeg";
+    if (hasBytes(head, 0, "RIFF") && hasBytes(head, 8, "WEBP")) return "image/webp";
+    if (hasBytes(head, 0, [0x1A, 0x45, 0xDF, 0xA3])) return "video/webm";
+    if (hasBytes(head, 4, "ftyp")) {
+        if (hasBytes(head, 8, "avif") || hasBytes(head, 8, "avis")) return "image/avif";
+        if (hasBytes(head, 8, "qt  ")) return "video/quicktime";
+        return "video/mp4";
+    }
+    return null;
+}
+
+const MEDIA_TRAILERS: Record<string, number[]> = {
+    "image/gif": [0x3B],
+    "image/png": [0xAE, 0x42, 0x60, 0x82],
+    "image/jpeg": [0xFF, 0xD9],
+};
+
+export async function validateMedia(blob: Blob): Promise<Blob> {
+    if (!blob.size) throw new FetchError("Empty response");
+    const type = await sniffMediaType(blob);
+    if (!type) throw new FetchError(`Not an image or video (${blob.type || "unknown content type"})`);
+
+    const trailer = MEDIA_TRAILERS[type];
+    if (trailer) {
+        const tail = new Uint8Array(await blob.slice(-trailer.length).arrayBuffer());
+        if (!hasBytes(tail, 0, trailer)) throw new FetchError(`Truncated ${type}`);
+    }
+    return blob.type === type ? blob : blob.slice(0, blob.size, type);
+}
+
+export class MediaFetcher {
+    readonly attempts = new Map<string, Map<string, FetchAttemptStats>>();
+    readonly winners = new Map<string, string>();
+
+    constructor(private readonly options: MediaFetcherOptions) { }
+
+    get strategies(): FetchStrategy[] {
+        return this.options.strategies;
+    }
+
+    private recordAttempt(host: string, strategy: string, error?: unknown) {
+        let perHost = this.attempts.get(host);
+        if (!perHost) this.attempts.set(host, perHost = new Map());
+        const stats = perHost.get(strategy) ?? { ok: 0, failed: 0 };
+        if (error) {
+            stats.failed++;
+            stats.lastError = error instanceof Error ? error.message : String(error);
+        } else {
+            stats.ok++;
+            this.winners.set(host, strategy);
+        }
+        perHost.set(strategy, stats);
+    }
+
+    async fetch(rawUrl: string, signal: AbortSignal): Promise<FetchResult> {
+        const url = normalizeUrl(rawUrl);
+        const host = hostOf(url);
+        const winner = this.winners.get(host);
+        const strategies = winner
+            ? [...this.strategies].sort((a, b) => Number(b.name === winner) - Number(a.name === winner))
+            : this.strategies;
+
+        const maxBytes = this.options.hostByteLimit(url);
+        const tried = new Set<string>();
+        const errors: string[] = [];
+        let status: number | undefined;
+        for (const strategy of strategies) {
+            const target = strategy.target(url);
+            if (!target || tried.has(`${strategy.native}:${target}`)) continue;
+            tried.add(`${strategy.native}:${target}`);
+            signal.throwIfAborted();
+            let blob: Blob;
+            try {
+                blob = await validateMedia(await strategy.fetch(target, signal));
+            } catch (e) {
+                if (isAbortError(e)) throw e;
+                this.recordAttempt(host, strategy.name, e);
+                errors.push(`${strategy.name}: ${e instanceof Error ? e.message : e}`);
+                if (e instanceof FetchError && e.status) status = e.status;
+                continue;
+            }
+            this.recordAttempt(host, strategy.name);
+            if (maxBytes && blob.size > maxBytes) {
+                throw new FetchError(`${formatBytes(blob.size)} exceeds the ${formatBytes(maxBytes)} limit for ${host}`, undefined, true);
+            }
+            return { blob, strategy: strategy.name };
+        }
+        throw new FetchError(`All fetch strategies failed (${errors.join("; ")})`, status);
+    }
+}
@@ -0,0 +1,1651 @@
+import * as DataStore from "@api/DataStore";
+import { ApplicationCommandInputType, ApplicationCommandOptionType, findOption, sendBotMessage } from "@api/Commands";
+import { findGroupChildrenByChildId, NavContextMenuPatchCallback } from "@api/ContextMenu";
+import { definePluginSettings } from "@api/Settings";
+import { copyWithToast } from "@utils/discord";
+import definePlugin, { OptionType, PluginNative } from "@utils/types";
+import { saveFile } from "@utils/web";
+import { findStoreLazy } from "@webpack";
+import { ChannelStore, FluxDispatcher, Menu, React, UserSettingsActionCreators } from "@webpack/common";
+
+import { isValidArchiveEntry, packArchive, readArchiveManifest } from "./archive";
+import { DEFAULT_HOST_RULES, elementKind, FetchResult, formatBytes, FORMAT_MIME_TYPES, GifCacheEngine, HostRule, HOUR, isAbortError, kindOfKey, kindVariantBase, MediaFormat, mediaKindOf, MetaEntry, sizeVariantBase, storedBytes, tenorVariantUrl } from "./engine";
+import { browserFetch, FetchError, FetchStrategy, MediaFetcher, validateMedia } from "./fetcher";
+import { CacheInspector, HostRulesEditor } from "./inspector";
+import { DownloadQueue } from "./queue";
+import { cacheStorageBackend, DailyStats, emptyStats, FailureRecord, FavoriteRecord, GifCacheDatabase, GifStorageBackend, mergeStats, sha256, STATS_DAYS, statsDay, StorageBackendId } from "./storage";
+
+const POSTER_MAX_SIZE = 320;
+const POSTER_TYPES = /^(image\/(gif|webp|avif)|video\/)/;
+const SNAPSHOT_VERSION = 1;
+const FAILURE_BASE_DELAY = 5 * 60_000;
+const FAILURE_MAX_DELAY = 24 * HOUR;
+const PERMANENT_FAILURE_STATUSES = new Set([403, 404, 410]);
+const ACCESS_FLUSH_INTERVAL = 60_000;
+const ACCESS_FLUSH_BATCH = 50;
+const SIGHTING_WINDOW = 7 * 24 * HOUR;
+const SEEN_TIER_WEIGHT = 4;
+const MEMORY_ROOT_MARGIN = "1500px";
+const REFRESH_IDLE_TIMEOUT = 5 * 60_000;
+const SETTINGS_PRUNE_DELAY = 5_000;
+const REMOVAL_PAUSE = 5_000;
+const SLOW_CONNECTION_TYPES = new Set(["slow-2g", "2g", "3g"]);
+const SYNC_CHANNEL = "EquicordGifFavCache";
+const ACTIVE_BACKEND_KEY = "GifFavCache_activeBackend";
+
+export const Native = VencordNative.pluginHelpers.GifFavCache as PluginNative<typeof import("./native")>;
+
+export const POSTER_CACHE = new Map<string, string>();
+const REVEALED_ELEMENTS = new WeakSet<Element>();
+const POSTER_ELEMENTS = new WeakSet<Element>();
+export const FAVORITE_KEYS = new Set<string>();
+export const PINNED_KEYS = new Set<string>();
+const PENDING_ACCESS = new Map<string, { lastAccessed: number; hits: number; }>();
+const PENDING_SIGHTINGS = new Map<string, number[]>();
+const SIGHTED_ELEMENTS = new WeakSet<Element>();
+export const FAILURES = new Map<string, FailureRecord>();
+const PENDING_STATS = new Map<string, DailyStats>();
+export const PATCH_HITS = new Map<string, number>();
+
+export const RENDER_PATCHES: Record<string, string> = {
+    gifPicker: "GIF picker results",
+    messageMedia: "Message attachments",
+    embeds: "Embedded GIFs",
+};
+
+let pauseCaching = false;
+let pauseTimer: ReturnType<typeof setTimeout> | null = null;
+let pluginRunning = false;
+
+export const settings = definePluginSettings({
+    preloadOnStartup: {
+        type: OptionType.BOOLEAN,
+        description: "Preload all favorited GIFs into cache when Discord starts.",
+        default: true,
+        restartNeeded: false,
+    },
+    refreshIntervalMinutes: {
+        type: OptionType.NUMBER,
+        description: "How often to re-cache favorites (minutes). Set to 0 to disable.",
+        default: 30,
+        restartNeeded: false,
+        onChange: () => scheduleAutoRefresh(),
+    },
+    maxCacheEntries: {
+        type: OptionType.NUMBER,
+        description: "Max GIFs to keep in IndexedDB. Least-recently-used are pruned automatically.",
+        default: 200,
+        restartNeeded: false,
+        onChange: () => schedulePrune(),
+    },
+    maxCacheBytes: {
+        type: OptionType.NUMBER,
+        description: "Max total size of the cache in bytes. Large, stale, non-favorite GIFs are pruned first. Set to 0 to disable.",
+        default: 512 * 1024 * 1024,
+        restartNeeded: false,
+        onChange: () => schedulePrune(),
+    },
+    maxQuotaPercent: {
+        type: OptionType.SLIDER,
+        description: "Keep Discord's total storage usage under this share of the browser quota (%).",
+        markers: [10, 25, 50, 75, 90],
+        default: 50,
+        stickToMarkers: false,
+        restartNeeded: false,
+        onChange: () => schedulePrune(),
+    },
+    memoryBudgetBytes: {
+        type: OptionType.NUMBER,
+        description: "Max size of cached GIFs held in memory (bytes). GIFs scrolled far off-screen are released first and reloaded from disk when they come back. Set to 0 for no limit.",
+        default: 128 * 1024 * 1024,
+        restartNeeded: false,
+        onChange: () => engine.trimMemory(),
+    },
+    seenTierEnabled: {
+        type: OptionType.BOOLEAN,
+        description: "Also cache non-favorite GIFs seen in chat, in the servers and channels listed below.",
+        default: false,
+        restartNeeded: false,
+    },
+    seenTierScopes: {
+        type: OptionType.STRING,
+        description: "Comma-separated server or channel IDs where chat GIFs are cached.",
+        default: "",
+        restartNeeded: false,
+    },
+    seenTierMaxBytes: {
+        type: OptionType.NUMBER,
+        description: "Max total size of GIFs cached from chat (bytes). They are pruned before favorites.",
+        default: 128 * 1024 * 1024,
+        restartNeeded: false,
+        onChange: () => schedulePrune(),
+    },
+    seenTierTtlHours: {
+        type: OptionType.NUMBER,
+        description: "Drop GIFs cached from chat after this many hours without being seen.",
+        default: 72,
+        restartNeeded: false,
+        onChange: () => schedulePrune(),
+    },
+    seenTierPromoteCount: {
+        type: OptionType.NUMBER,
+        description: "Keep a chat GIF long-term once it's been seen this many times in a week.",
+        default: 5,
+        restartNeeded: false,
+    },
+    orphanGraceHours: {
+        type: OptionType.NUMBER,
+        description: "Hours to keep a GIF after it's unfavorited, so re-favoriting it is instant. 0 = drop it at the next prune.",
+        default: 24,
+        restartNeeded: false,
+        onChange: () => schedulePrune(),
+    },
+    preferredFormat: {
+        type: OptionType.SELECT,
+        description: "Which format to store when a GIF is also available as MP4 or WebM (Tenor, Discord media proxy). Video formats are often 10× smaller but can only be swapped into video elements.",
+        options: [
+            { label: "MP4", value: "mp4", default: true },
+            { label: "WebM", value: "webm" },
+            { label: "GIF", value: "gif" },
+        ],
+        restartNeeded: false,
+    },
+    posterMode: {
+        type: OptionType.SELECT,
+        description: "Show a still first frame for large cached GIFs and only animate them once they're on screen or hovered.",
+        options: [
+            { label: "Animate once visible", value: "visible", default: true },
+            { label: "Animate on hover", value: "hover" },
+            { label: "Always animate", value: "off" },
+        ],
+        restartNeeded: false,
+    },
+    posterMinBytes: {
+        type: OptionType.NUMBER,
+        description: "Only generate still posters for cached GIFs at least this large (bytes).",
+        default: 512 * 1024,
+        restartNeeded: false,
+    },
+    downloadConcurrency: {
+        type: OptionType.NUMBER,
+        description: "How many GIFs to download at once.",
+        default: 4,
+        restartNeeded: false,
+    },
+    hostRules: {
+        type: OptionType.COMPONENT,
+        description: "Per-host rules. The first rule whose host pattern matches wins; hosts without a rule are allowed.",
+        default: DEFAULT_HOST_RULES,
+        component: () => <HostRulesEditor />,
+    },
+    storageBackend: {
+        type: OptionType.SELECT,
+        description: "Where cached GIFs are stored. Switching moves everything that's already cached.",
+        options: [
+            { label: "IndexedDB", value: "indexeddb", default: true },
+            { label: "Cache Storage", value: "cacheStorage" },
+            { label: "Folder on disk (desktop only, survives a profile wipe)", value: "native" },
+        ],
+        restartNeeded: false,
+        onChange: (value: StorageBackendId) => { switchStorageBackend(value); },
+    },
+    importConflictPolicy: {
+        type: OptionType.SELECT,
+        description: "What to do when an imported GIF is already cached.",
+        options: [
+            { label: "Keep whichever was cached more recently", value: "newer", default: true },
+            { label: "Keep the existing entry", value: "skip" },
+            { label: "Overwrite with the imported entry", value: "overwrite" },
+        ],
+        restartNeeded: false,
+    },
+});
+
+function getHostRules(): HostRule[] {
+    return settings.store.hostRules ?? DEFAULT_HOST_RULES;
+}
+
+export const db = new GifCacheDatabase({
+    backend: getStorageBackend,
+    isFavorite: isFavoriteKey,
+    isPinned: key => PINNED_KEYS.has(key),
+    lock: withKeyLock,
+    writeLock: withBackendWriteLock,
+});
+
+export const downloads = new DownloadQueue({
+    concurrency: () => settings.store.downloadConcurrency,
+    download: (rawUrl, signal): Promise<FetchResult> => mediaFetcher.fetch(rawUrl, signal),
+    paused: () => !!backendMigration,
+});
+
+export const engine = new GifCacheEngine({
+    storage: db,
+    fetcher: downloads,
+    clock: Date,
+    dom: {
+        mediaElements: () => typeof document === "undefined" ? [] : document.querySelectorAll(TAG_SELECTOR),
+        createObjectUrl: blob => URL.createObjectURL(blob),
+        revokeObjectUrl: url => URL.revokeObjectURL(url),
+    },
+    policy: {
+        maxEntries: () => settings.store.maxCacheEntries,
+        byteBudget: getByteBudget,
+        isFavorite: isFavoriteKey,
+        isPinned: key => PINNED_KEYS.has(key),
+        isBackedOff,
+        lastAccessed: entry => getAccessInfo(entry).lastAccessed,
+        tierWeight: (entry): number => isFavoriteKey(entry.url) || entry.favorite ? 0.2 : engine.isSeenTier(entry) || engine.isOrphaned(entry) ? SEEN_TIER_WEIGHT : 1,
+        memoryBudget: () => settings.store.memoryBudgetBytes > 0 ? settings.store.memoryBudgetBytes : Infinity,
+        inUseUrls,
+        async beforePrune() {
+            await pruneOrphans();
+            await pruneSeenTier();
+        },
+    },
+    hostRules: getHostRules,
+    preferredFormat: () => settings.store.preferredFormat as MediaFormat,
+    events: {
+        accessed: touch,
+        served: countServe,
+        loaded: ensurePoster,
+        downloaded(key, rawUrl, _strategy, persisted) {
+            if (persisted) broadcastSync({ type: "put", key, sourceUrl: rawUrl });
+            clearFailure(key);
+        },
+        failed(key, rawUrl, error) {
+            if (!navigator.onLine) return;
+            pendingStats().failures++;
+            recordFailure(key, rawUrl, error);
+        },
+    },
+    lock: withKeyLock,
+});
+
+const nativeBackend: GifStorageBackend = {
+    id: "native",
+    label: "Folder on disk",
+    available: () => typeof Native?.writeBlob === "function",
+    async get(hash) {
+        const result = await Native.readBlob(hash);
+        return result ? new Blob([result.data], { type: result.mimeType }) : null;
+    },
+    has: hash => Native.hasBlob(hash),
+    put: async (hash, blob, url, sourceUrl) => Native.writeBlob(hash, new Uint8Array(await blob.arrayBuffer()), blob.type, url, sourceUrl),
+    delete: hash => Native.deleteBlob(hash),
+    clear: () => Native.clearBlobs(),
+    recover: () => Native.listBlobs(),
+};
+
+const STORAGE_BACKENDS: Record<StorageBackendId, GifStorageBackend> = {
+    indexeddb: db.blobs,
+    cacheStorage: cacheStorageBackend,
+    native: nativeBackend,
+};
+
+export let activeBackendId: StorageBackendId = "indexeddb";
+let backendMigration: Promise<boolean> | null = null;
+
+function getStorageBackend(): GifStorageBackend {
+    return STORAGE_BACKENDS[activeBackendId];
+}
+
+async function syncActiveBackend(): Promise<void> {
+    const id = await DataStore.get<StorageBackendId>(ACTIVE_BACKEND_KEY);
+    if (id && id !== activeBackendId && STORAGE_BACKENDS[id]?.available()) activeBackendId = id;
+}
+
+async function initStorageBackend(): Promise<void> {
+    activeBackendId = await DataStore.get<StorageBackendId>(ACTIVE_BACKEND_KEY) ?? "indexeddb";
+    if (!getStorageBackend().available()) {
+        console.warn(`[GifFavCache] ${getStorageBackend().label} storage is unavailable here, falling back to IndexedDB`);
+        activeBackendId = "indexeddb";
+    }
+    const backend = getStorageBackend();
+    if (backend.recover) {
+        let empty = true;
+        await db.forEachMeta(() => { empty = false; });
+        if (empty) {
+            const recovered = await backend.recover();
+            if (recovered.length) console.log(`[GifFavCache] Recovered ${await db.restoreMeta(recovered)} entries from ${backend.label}`);
+        }
+    }
+    const wanted: StorageBackendId = settings.store.storageBackend ?? "indexeddb";
+    if (wanted !== activeBackendId) switchStorageBackend(wanted);
+}
+
+function switchStorageBackend(target: StorageBackendId): Promise<boolean> {
+    if (backendMigration) return backendMigration.then(() => switchStorageBackend(target));
+    if (target === activeBackendId) return Promise.resolve(true);
+
+    const from = getStorageBackend();
+    const to = STORAGE_BACKENDS[target];
+    if (!to.available()) {
+        console.warn(`[GifFavCache] ${to.label} storage is unavailable here`);
+        settings.store.storageBackend = activeBackendId;
+        return Promise.resolve(false);
+    }
+
+    backendMigration = (async () => {
+        const wasPaused = pauseCaching;
+        pauseCaching = true;
+        try {
+            await db.holdWrites(async () => {
+                const copied = new Set<string>();
+                for (let pass = 1; ; pass++) {
+                    const sources = new Map<string, MetaEntry>();
+                    for (const meta of await db.getAllMeta()) {
+                        if (meta.hash && !copied.has(meta.hash) && !sources.has(meta.hash)) sources.set(meta.hash, meta);
+                    }
+                    if (!sources.size) break;
+                    console.log(`[GifFavCache] Moving ${sources.size} blobs from ${from.label} to ${to.label} (pass ${pass})...`);
+                    for (const [hash, meta] of sources) {
+                        const blob = await from.get(hash);
+                        if (blob && !await to.has(hash)) await to.put(hash, blob, meta.url, meta.sourceUrl);
+                        copied.add(hash);
+                    }
+                }
+                activeBackendId = target;
+                await DataStore.set(ACTIVE_BACKEND_KEY, target);
+                broadcastSync({ type: "backend", id: target });
+                await from.clear();
+            });
+            console.log(`[GifFavCache] Storage backend is now ${to.label}`);
+            return true;
+        } catch (e) {
+            console.error(`[GifFavCache] Moving the cache to ${to.label} failed, staying on ${from.label}`, e);
+            settings.store.storageBackend = activeBackendId;
+            return false;
+        } finally {
+            pauseCaching = wasPaused;
+            backendMigration = null;
+            downloads.pump();
+        }
+    })();
+    return backendMigration;
+}
+
+export function formatDate(ts: number): string {
+    return new Date(ts).toLocaleString();
+}
+
+let accessFlushQueued = false;
+let accessFlushTimer: ReturnType<typeof setInterval> | null = null;
+
+function touch(key: string) {
+    const pending = PENDING_ACCESS.get(key);
+    if (pending) {
+        pending.lastAccessed = Date.now();
+        pending.hits++;
+    } else {
+        PENDING_ACCESS.set(key, { lastAccessed: Date.now(), hits: 1 });
+    }
+    if (PENDING_ACCESS.size >= ACCESS_FLUSH_BATCH && !accessFlushQueued) {
+        accessFlushQueued = true;
+        setTimeout(() => {
+            accessFlushQueued = false;
+            flushAccessTimes();
+        }, 1000);
+    }
+}
+
+export function getAccessInfo(entry: MetaEntry): { lastAccessed: number; hits: number; } {
+    const pending = PENDING_ACCESS.get(entry.url);
+    return {
+        lastAccessed: Math.max(entry.lastAccessed, pending?.lastAccessed ?? 0),
+        hits: entry.hits + (pending?.hits ?? 0),
+    };
+}
+
+async function flushAccessTimes(): Promise<void> {
+    if (!PENDING_ACCESS.size && !PENDING_SIGHTINGS.size) return;
+    const accesses = new Map(PENDING_ACCESS);
+    const sightings = new Map(PENDING_SIGHTINGS);
+    PENDING_ACCESS.clear();
+    PENDING_SIGHTINGS.clear();
+    try {
+        const now = Date.now();
+        await db.updateMeta(new Set([...accesses.keys(), ...sightings.keys()]), entry => {
+            const access = accesses.get(entry.url);
+            if (access) {
+                entry.lastAccessed = Math.max(entry.lastAccessed, access.lastAccessed);
+                entry.hits += access.hits;
+            }
+            const seen = sightings.get(entry.url);
+            if (seen) {
+                entry.sightings = [...entry.sightings ?? [], ...seen].filter(t => now - t < SIGHTING_WINDOW);
+                if (entry.tier === "seen" && entry.sightings.length >= settings.store.seenTierPromoteCount) {
+                    delete entry.tier;
+                    console.log(`[GifFavCache] Promoted to long-lived tier after ${entry.sightings.length} sightings:`, entry.url);
+                }
+            }
+        });
+    } catch (e) {
+        console.warn("[GifFavCache] Failed to persist access times", e);
+        for (const [key, access] of accesses) {
+            const pending = PENDING_ACCESS.get(key);
+            PENDING_ACCESS.set(key, pending
+                ? { lastAccessed: Math.max(pending.lastAccessed, access.lastAccessed), hits: pending.hits + access.hits }
+                : access);
+        }
+        for (const [key, seen] of sightings) PENDING_SIGHTINGS.set(key, [...seen, ...PENDING_SIGHTINGS.get(key) ?? []]);
+    }
+}
+
+function pendingStats(): DailyStats {
+    const day = statsDay(Date.now());
+    let stats = PENDING_STATS.get(day);
+    if (!stats) PENDING_STATS.set(day, stats = emptyStats(day));
+    return stats;
+}
+
+function countServe(source: "memory" | "db" | "network", bytes: number) {
+    const stats = pendingStats();
+    if (source === "memory") stats.memoryHits++;
+    else if (source === "db") stats.dbHits++;
+    else stats.networkMisses++;
+    if (source === "network") stats.bytesFromNetwork += bytes;
+    else stats.bytesFromCache += bytes;
+}
+
+function countSwap(insertedAt: number) {
+    const latency = performance.now() - insertedAt;
+    const stats = pendingStats();
+    stats.swaps++;
+    stats.swapLatencyTotal += latency;
+    stats.swapLatencyMax = Math.max(stats.swapLatencyMax, latency);
+}
+
+async function flushStats(): Promise<void> {
+    if (!PENDING_STATS.size) return;
+    const pending = [...PENDING_STATS.values()];
+    PENDING_STATS.clear();
+    try {
+        await db.addStats(pending);
+    } catch (e) {
+        console.warn("[GifFavCache] Failed to persist stats", e);
+    }
+}
+
+export async function getDailyStats(): Promise<DailyStats[]> {
+    const byDay = new Map((await db.getStats()).map(stats => [stats.day, stats]));
+    for (const stats of PENDING_STATS.values()) {
+        const stored = byDay.get(stats.day);
+        byDay.set(stats.day, stored ? mergeStats(stored, stats) : stats);
+    }
+    const days: DailyStats[] = [];
+    for (let i = STATS_DAYS - 1; i >= 0; i--) {
+        const day = statsDay(Date.now() - i * 24 * HOUR);
+        days.push(byDay.get(day) ?? emptyStats(day));
+    }
+    return days;
+}
+
+export function summarizeStats(days: DailyStats[]): { total: DailyStats; requests: number; hitRate: number; } {
+    const total = days.reduce((acc, d) => mergeStats(acc, d), emptyStats(""));
+    const requests = total.memoryHits + total.dbHits + total.networkMisses + total.failures;
+    return { total, requests, hitRate: requests ? (total.memoryHits + total.dbHits) / requests : 0 };
+}
+
+interface CacheSummary { entries: MetaEntry[]; size: number; budget: number; quota: { usage: number; quota: number; } | null; }
+
+export async function getCacheSummary(): Promise<CacheSummary> {
+    const entries = await db.getAllMeta();
+    const size = storedBytes(entries);
+    let quota: CacheSummary["quota"] = null;
+    if (navigator.storage?.estimate) {
+        try {
+            const est = await navigator.storage.estimate();
+            quota = { usage: est.usage ?? 0, quota: est.quota ?? 0 };
+        } catch { }
+    }
+    return { entries, size, budget: await getByteBudget(size), quota };
+}
+
+function startAccessFlush() {
+    stopAccessFlush();
+    accessFlushTimer = setInterval(() => {
+        flushAccessTimes();
+        flushStats();
+    }, ACCESS_FLUSH_INTERVAL);
+}
+
+function stopAccessFlush() {
+    if (accessFlushTimer !== null) {
+        clearInterval(accessFlushTimer);
+        accessFlushTimer = null;
+    }
+}
+
+async function nativeFetch(url: string, signal: AbortSignal): Promise<Blob> {
+    const res = await Native.fetchMedia(url);
+    signal.throwIfAborted();
+    if (res.error) throw new FetchError(res.error, res.status || undefined);
+    if (!res.data) throw new FetchError(`HTTP ${res.status}`, res.status);
+    return new Blob([res.data], { type: res.contentType });
+}
+
+export const FETCH_STRATEGIES: FetchStrategy[] = [
+    { name: "direct", native: false, target: url => url, fetch: browserFetch },
+    { name: "upstream", native: false, target: url => engine.extractProxiedUrl(url), fetch: browserFetch },
+    { name: "tenor", native: false, target: url => tenorVariantUrl(engine.extractProxiedUrl(url) ?? url), fetch: browserFetch },
+    { name: "native", native: true, target: url => typeof Native?.fetchMedia === "function" ? engine.extractProxiedUrl(url) ?? url : null, fetch: nativeFetch },
+];
+
+export const mediaFetcher = new MediaFetcher({
+    strategies: FETCH_STRATEGIES,
+    hostByteLimit: (url): number => engine.hostByteLimit(url),
+});
+
+async function loadPinnedKeys(): Promise<void> {
+    PINNED_KEYS.clear();
+    await db.forEachMeta(entry => {
+        if (entry.pinned) PINNED_KEYS.add(entry.url);
+    });
+}
+
+export async function setPinned(key: string, rawUrl: string | undefined, pinned: boolean): Promise<void> {
+    if (pinned) PINNED_KEYS.add(key);
+    else PINNED_KEYS.delete(key);
+    broadcastSync({ type: "pin", key, pinned });
+    try {
+        if (!await db.setPinned(key, pinned) && pinned && rawUrl) await engine.cache(rawUrl, "visible", undefined, kindOfKey(key));
+    } catch (e) {
+        console.warn("[GifFavCache] Failed to update pin", e);
+    }
+}
+
+async function loadFailures(): Promise<void> {
+    FAILURES.clear();
+    for (const record of await db.getAllFailures()) FAILURES.set(record.url, record);
+}
+
+function isBackedOff(key: string): boolean {
+    const record = FAILURES.get(key);
+    return !!record && (record.permanent || record.nextRetryAt > Date.now());
+}
+
+function recordFailure(key: string, rawUrl: string, error: unknown) {
+    const now = Date.now();
+    const previous = FAILURES.get(key);
+    const status = error instanceof FetchError ? error.status : undefined;
+    const attempts = (previous?.attempts ?? 0) + 1;
+    const permanent = (error instanceof FetchError && error.permanent)
+        || (status !== undefined && PERMANENT_FAILURE_STATUSES.has(status));
+    const record: FailureRecord = {
+        url: key,
+        sourceUrl: rawUrl,
+        lastError: error instanceof Error ? error.message : String(error),
+        status,
+        attempts,
+        firstFailedAt: previous?.firstFailedAt ?? now,
+        lastFailedAt: now,
+        nextRetryAt: permanent ? Infinity : now + Math.min(FAILURE_MAX_DELAY, FAILURE_BASE_DELAY * 2 ** (attempts - 1)),
+        permanent,
+    };
+    FAILURES.set(key, record);
+    db.putFailure(record).catch(e => console.warn("[GifFavCache] Failed to store download failure", e));
+}
+
+export function clearFailure(key: string) {
+    if (!FAILURES.delete(key)) return;
+    db.deleteFailure(key);
+}
+
+export function retryFailure(key: string): Promise<string | null> {
+    const record = FAILURES.get(key);
+    if (!record) return Promise.resolve(null);
+    FAILURES.set(key, { ...record, permanent: false, nextRetryAt: 0 });
+    return engine.cache(record.sourceUrl, "visible", undefined, kindOfKey(key));
+}
+
+async function drawPoster(source: CanvasImageSource, width: number, height: number): Promise<Blob> {
+    const scale = Math.min(1, POSTER_MAX_SIZE / Math.max(width, height));
+    const canvas = new OffscreenCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+    canvas.getContext("2d")!.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.convertToBlob({ type: "image/webp", quality: 0.8 });
+}
+
+async function decodeFirstVideoFrame(blob: Blob): Promise<Blob> {
+    const video = document.createElement("video");
+    const src = URL.createObjectURL(blob);
+    try {
+        video.muted = true;
+        video.preload = "auto";
+        await new Promise<void>((resolve, reject) => {
+            const timeout = setTimeout(() => reject(new Error("Timed out decoding video")), 10_000);
+            video.onloadeddata = () => { clearTimeout(timeout); resolve(); };
+            video.onerror = () => { clearTimeout(timeout); reject(video.error); };
+            video.src = src;
+        });
+        return await drawPoster(video, video.videoWidth, video.videoHeight);
+    } finally {
+        video.removeAttribute("src");
+        URL.revokeObjectURL(src);
+    }
+}
+
+async function generatePoster(blob: Blob): Promise<Blob | null> {
+    try {
+        if (blob.type.startsWith("video/")) return await decodeFirstVideoFrame(blob);
+
+        if ("ImageDecoder" in globalThis && await ImageDecoder.isTypeSupported(blob.type)) {
+            const decoder = new ImageDecoder({ data: blob.stream(), type: blob.type });
+            try {
+                const { image } = await decoder.decode({ frameIndex: 0 });
+                try {
+                    return await drawPoster(image, image.displayWidth, image.displayHeight);
+                } finally {
+                    image.close();
+                }
+            } finally {
+                decoder.close();
+            }
+        }
+
+        const bitmap = await createImageBitmap(blob);
+        try {
+            return await drawPoster(bitmap, bitmap.width, bitmap.height);
+        } finally {
+            bitmap.close();
+        }
+    } catch (e) {
+        console.warn("[GifFavCache] Failed to generate poster", e);
+        return null;
+    }
+}
+
+function rememberPoster(key: string, still: Blob): string {
+    const existing = POSTER_CACHE.get(key);
+    if (existing) return existing;
+    const posterUrl = URL.createObjectURL(still);
+    POSTER_CACHE.set(key, posterUrl);
+    engine.reverse.set(posterUrl, key);
+    return posterUrl;
+}
+
+async function ensurePoster(key: string, blob: Blob): Promise<void> {
+    if (POSTER_CACHE.has(key) || blob.size < settings.store.posterMinBytes || !POSTER_TYPES.test(blob.type)) return;
+    const meta = await db.getMeta(key);
+    if (!meta?.hash) return;
+
+    let still = await db.getPoster(meta.hash);
+    if (!still) {
+        still = await generatePoster(blob) ?? undefined;
+        if (!still) return;
+        await db.putPoster(meta.hash, still);
+    }
+    rememberPoster(key, still);
+}
+
+export async function getPosterUrl(key: string): Promise<string | null> {
+    const cached = POSTER_CACHE.get(key);
+    if (cached) return cached;
+    const meta = await db.getMeta(key);
+    const still = meta?.hash && await db.getPoster(meta.hash);
+    return still ? rememberPoster(key, still) : null;
+}
+
+export function isFavoriteKey(key: string): boolean {
+    const base = kindVariantBase(key);
+    return FAVORITE_KEYS.has(base) || FAVORITE_KEYS.has(sizeVariantBase(base));
+}
+
+export async function getByteBudget(cacheBytes: number): Promise<number> {
+    let budget = settings.store.maxCacheBytes > 0 ? settings.store.maxCacheBytes : Infinity;
+    if (navigator.storage?.estimate) {
+        try {
+            const est = await navigator.storage.estimate();
+            if (est.quota) {
+                const otherUsage = Math.max(0, (est.usage ?? 0) - cacheBytes);
+                budget = Math.min(budget, est.quota * settings.store.maxQuotaPercent / 100 - otherUsage);
+            }
+        } catch { }
+    }
+    return Math.max(0, budget);
+}
+
+async function pruneSeenTier(): Promise<void> {
+    await engine.pruneSeenTier(await db.getAllMeta(), settings.store.seenTierTtlHours * HOUR, settings.store.seenTierMaxBytes);
+}
+
+export async function pruneOrphans(force = false): Promise<number> {
+    const cutoff = force ? Infinity : Date.now() - settings.store.orphanGraceHours * HOUR;
+    const expired = engine.expiredOrphans(await db.getAllMeta(), cutoff);
+    for (const entry of expired) await evictEntry(entry.url);
+    if (expired.length) console.log(`[GifFavCache] Purged ${expired.length} unfavorited GIFs`);
+    return expired.length;
+}
+
+export const UserSettingsProtoStore = findStoreLazy("UserSettingsProtoStore") as any;
+
+function getFavoriteGifRawUrls(): string[] {
+    try {
+        const gifs = UserSettingsProtoStore?.frecencyWithoutFetchingLatest?.favoriteGifs?.gifs;
+        if (!gifs) return [];
+        const urls = new Set<string>();
+        for (const g of Object.values(gifs)) {
+            const item = g as any;
+            if (typeof item?.src === "string" && item.src) urls.add(item.src);
+            if (typeof item?.url === "string" && item.url) urls.add(item.url);
+        }
+        return [...urls];
+    } catch (e) {
+        console.warn("[GifFavCache] Could not read favorites:", e);
+        return [];
+    }
+}
+
+function favoritesAvailable(): boolean {
+    try {
+        return !!UserSettingsProtoStore?.frecencyWithoutFetchingLatest?.favoriteGifs;
+    } catch {
+        return false;
+    }
+}
+
+export function getFavoriteRecords(): FavoriteRecord[] | null {
+    try {
+        const gifs = UserSettingsProtoStore?.frecencyWithoutFetchingLatest?.favoriteGifs?.gifs;
+        if (!gifs) return null;
+        return Object.entries(gifs).map(([key, g]) => {
+            const item = g as any;
+            return {
+                key,
+                src: typeof item?.src === "string" ? item.src : "",
+                width: item?.width ?? 0,
+                height: item?.height ?? 0,
+                format: item?.format ?? 0,
+                order: item?.order ?? 0,
+            };
+        });
+    } catch (e) {
+        console.warn("[GifFavCache] Could not read favorites:", e);
+        return null;
+    }
+}
+
+function snapshotSignature(favorites: FavoriteRecord[]): string {
+    return JSON.stringify(favorites.map(f => [f.key, f.src, f.order]).sort());
+}
+
+let lastSnapshotSignature: string | null = null;
+
+export async function snapshotFavorites(): Promise<void> {
+    const favorites = getFavoriteRecords();
+    if (!favorites) return;
+    const signature = snapshotSignature(favorites);
+    if (lastSnapshotSignature === null) {
+        const [latest] = await db.getSnapshots();
+        lastSnapshotSignature = latest ? snapshotSignature(latest.favorites) : "";
+    }
+    if (signature === lastSnapshotSignature) return;
+    lastSnapshotSignature = signature;
+    await db.addSnapshot({ version: SNAPSHOT_VERSION, takenAt: Date.now(), favorites });
+    console.log(`[GifFavCache] Saved favorites snapshot (${favorites.length} GIFs)`);
+}
+
+export function diffFavorites(base: FavoriteRecord[], current: FavoriteRecord[]): { added: FavoriteRecord[]; removed: FavoriteRecord[]; } {
+    const baseKeys = new Set(base.map(f => f.key));
+    const currentKeys = new Set(current.map(f => f.key));
+    return {
+        added: current.filter(f => !baseKeys.has(f.key)),
+        removed: base.filter(f => !currentKeys.has(f.key)),
+    };
+}
+
+export async function restoreFavorites(records: FavoriteRecord[]): Promise<void> {
+    if (!records.length) return;
+    await UserSettingsActionCreators.FrecencyUserSettingsActionCreators.updateAsync("favoriteGifs", (favoriteGifs: any) => {
+        for (const { key, src, width, height, format, order } of records) {
+            favoriteGifs.gifs[key] = { src, width, height, format, order };
+        }
+    }, 0);
+
+    for (const { key, src } of records) {
+        const url = src || key;
+        FAVORITE_KEYS.add(engine.canonicalUrl(url));
+        engine.cache(url).catch(console.error);
+    }
+    console.log(`[GifFavCache] Restored ${records.length} favorites`);
+}
+
+function refreshFavoriteKeys(urls: string[]) {
+    FAVORITE_KEYS.clear();
+    for (const url of urls) FAVORITE_KEYS.add(engine.canonicalUrl(url));
+    const markOrphans = favoritesAvailable();
+    db.syncFavoriteFlags(markOrphans).then(() => {
+        if (markOrphans) return pruneOrphans();
+    }).catch(e => console.warn("[GifFavCache] Failed to sync favorite flags", e));
+}
+
+export async function preloadAllFavorites(): Promise<void> {
+    const urls = getFavoriteGifRawUrls();
+    refreshFavoriteKeys(urls);
+    await snapshotFavorites();
+    if (!urls.length) {
+        console.log("[GifFavCache] No favorites found yet.");
+        return;
+    }
+    console.log(`[GifFavCache] Preloading ${urls.length} favorited GIFs...`);
+    const hits = new Map<string, number>();
+    await db.forEachMeta(entry => hits.set(entry.url, getAccessInfo(entry).hits));
+    const ranked = urls
+        .map(url => ({ url, hits: hits.get(engine.canonicalUrl(url)) ?? 0 }))
+        .sort((a, b) => b.hits - a.hits);
+    await Promise.allSettled(ranked.map(({ url, hits }) => engine.cache(url, hits > 0 ? "frequent" : "background")));
+    console.log("[GifFavCache] Preload complete.");
+}
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshIdleHandle: number | null = null;
+let settingsPruneTimer: ReturnType<typeof setTimeout> | null = null;
+
+interface NetworkInformation { saveData?: boolean; type?: string; effectiveType?: string; }
+
+function isConstrainedConnection(): boolean {
+    if (!("connection" in navigator)) return false;
+    const connection = navigator.connection as NetworkInformation | undefined;
+    return !!connection && (!!connection.saveData || connection.type === "cellular" || SLOW_CONNECTION_TYPES.has(connection.effectiveType ?? ""));
+}
+
+async function runAutoRefresh() {
+    refreshTimer = null;
+    refreshIdleHandle = null;
+    if (!pluginRunning || !navigator.onLine) return;
+    await preloadAllFavorites();
+    scheduleAutoRefresh();
+}
+
+function scheduleAutoRefresh() {
+    stopAutoRefresh();
+    const mins = settings.store.refreshIntervalMinutes;
+    if (!pluginRunning || !mins || mins <= 0 || !navigator.onLine) return;
+    refreshTimer = setTimeout(() => {
+        refreshTimer = null;
+        if (isConstrainedConnection() && typeof requestIdleCallback === "function") {
+            refreshIdleHandle = requestIdleCallback(() => runAutoRefresh(), { timeout: REFRESH_IDLE_TIMEOUT });
+        } else {
+            runAutoRefresh();
+        }
+    }, mins * 60_000);
+}
+
+function stopAutoRefresh() {
+    if (refreshTimer !== null) {
+        clearTimeout(refreshTimer);
+        refreshTimer = null;
+    }
+    if (refreshIdleHandle !== null) {
+        cancelIdleCallback(refreshIdleHandle);
+        refreshIdleHandle = null;
+    }
+}
+
+function onOnline() {
+    if (settings.store.refreshIntervalMinutes <= 0) return;
+    console.log("[GifFavCache] Back online, catching up on favorites");
+    stopAutoRefresh();
+    runAutoRefresh();
+}
+
+function onOffline() {
+    console.log("[GifFavCache] Offline, pausing background refresh");
+    stopAutoRefresh();
+}
+
+function startNetworkListeners() {
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+}
+
+function stopNetworkListeners() {
+    window.removeEventListener("online", onOnline);
+    window.removeEventListener("offline", onOffline);
+}
+
+function schedulePrune() {
+    if (settingsPruneTimer !== null) clearTimeout(settingsPruneTimer);
+    settingsPruneTimer = setTimeout(() => {
+        settingsPruneTimer = null;
+        if (pluginRunning) engine.prune().catch(e => console.warn("[GifFavCache] Failed to prune after a settings change", e));
+    }, SETTINGS_PRUNE_DELAY);
+}
+
+const TAG_SELECTOR = "img[src], video[src], source[src]";
+const INSPECTOR_SELECTOR = "[data-gif-fav-cache-inspector]";
+
+let seenScopeSource: string | null = null;
+let seenScopes = new Set<string>();
+
+function isInSeenTierScope(el: Element): boolean {
+    if (!settings.store.seenTierEnabled) return false;
+    const message = el.closest("[id^='chat-messages-']");
+    const channelId = message?.id.split("-")[2];
+    if (!channelId) return false;
+
+    const source: string = settings.store.seenTierScopes;
+    if (seenScopeSource !== source) {
+        seenScopeSource = source;
+        seenScopes = new Set(source.split(",").map(id => id.trim()).filter(Boolean));
+    }
+    if (seenScopes.has(channelId)) return true;
+    const guildId = ChannelStore.getChannel(channelId)?.guild_id;
+    return !!guildId && seenScopes.has(guildId);
+}
+
+function recordSighting(el: Element, key: string) {
+    if (SIGHTED_ELEMENTS.has(el)) return;
+    SIGHTED_ELEMENTS.add(el);
+    const sightings = PENDING_SIGHTINGS.get(key);
+    if (sightings) sightings.push(Date.now());
+    else PENDING_SIGHTINGS.set(key, [Date.now()]);
+}
+
+function revealElement(el: Element) {
+    REVEALED_ELEMENTS.add(el);
+    posterObserver?.unobserve(el);
+    const src = el.getAttribute("src") ?? "";
+    const key = engine.reverse.get(src);
+    if (!key || src !== POSTER_CACHE.get(key)) return;
+    engine.materialize(key, engine.sources.get(key)).then(full => {
+        if (full && el.getAttribute("src") === src && engine.servesKind(key, elementKind(el))) engine.swapElement(el, full);
+    }).catch(() => { });
+}
+
+function servePosterFirst(el: Element, key: string): boolean {
+    const mode = settings.store.posterMode;
+    const posterUrl = POSTER_CACHE.get(key);
+    if (mode === "off" || !posterUrl || el.tagName !== "IMG" || REVEALED_ELEMENTS.has(el)) return false;
+    if (el.getAttribute("src") !== posterUrl) engine.swapElement(el, posterUrl);
+    if (!POSTER_ELEMENTS.has(el)) {
+        POSTER_ELEMENTS.add(el);
+        if (mode === "visible") posterObserver?.observe(el);
+        el.addEventListener("mouseenter", () => revealElement(el), { once: true });
+    }
+    return true;
+}
+
+function trySwapElement(el: Element) {
+    const src = el.getAttribute("src");
+    if (!src || el.closest(INSPECTOR_SELECTOR)) return;
+    const insertedAt = performance.now();
+    const selfSwapped = engine.consumeSelfSwap(el);
+
+    if (src.startsWith("blob:")) {
+        memoryObserver?.observe(el);
+        const key = engine.reverse.get(src);
+        if (key && !selfSwapped) {
+            if (src === engine.memory.get(key) || src === POSTER_CACHE.get(key)) servePosterFirst(el, key);
+            countServe("memory", engine.sizes.get(key) ?? 0);
+            touch(key);
+        }
+        return;
+    }
+    if (!engine.isCacheable(src)) return;
+
+    const kind = elementKind(el);
+    const key = engine.keyFor(src, kind);
+    const favorite = isFavoriteKey(key);
+    const seenTier = !favorite && isInSeenTierScope(el);
+    if (seenTier) recordSighting(el, key);
+
+    const cachedKey = engine.memoryKey(key);
+    if (cachedKey) {
+        const cached = engine.memory.get(cachedKey)!;
+        if (!engine.servesKind(cachedKey, kind)) return;
+        if (!servePosterFirst(el, cachedKey) && el.getAttribute("src") !== cached) engine.swapElement(el, cached);
+        engine.markUsed(cachedKey);
+        countServe("memory", engine.sizes.get(cachedKey) ?? 0);
+        countSwap(insertedAt);
+        touch(cachedKey);
+        return;
+    }
+
+    if ((favorite || seenTier) && !pauseCaching) {
+        engine.cache(src, "visible", seenTier ? "seen" : undefined, kind).then(objUrl => {
+            if (objUrl && el.isConnected && el.getAttribute("src") === src && engine.servesKind(engine.reverse.get(objUrl) ?? key, kind)) {
+                engine.swapElement(el, objUrl);
+                countSwap(insertedAt);
+            }
+        }).catch(() => { });
+    }
+}
+
+export let mutationObserver: MutationObserver | null = null;
+let posterObserver: IntersectionObserver | null = null;
+let memoryObserver: IntersectionObserver | null = null;
+
+function inUseUrls(): Set<string> {
+    const urls = new Set<string>();
+    if (typeof document === "undefined") return urls;
+    document.querySelectorAll(TAG_SELECTOR).forEach(el => urls.add(el.getAttribute("src")!));
+    return urls;
+}
+
+function startDomWatcher() {
+    stopDomWatcher();
+    if (typeof document === "undefined") return;
+
+    mutationObserver = new MutationObserver(mutations => {
+        for (const m of mutations) {
+            if (m.type === "attributes" && m.target instanceof Element) {
+                trySwapElement(m.target);
+            } else if (m.type === "childList") {
+                m.addedNodes.forEach(node => {
+                    if (!(node instanceof Element)) return;
+                    if (node.matches?.(TAG_SELECTOR)) trySwapElement(node);
+                    node.querySelectorAll?.(TAG_SELECTOR).forEach(trySwapElement);
+                });
+            }
+        }
+    });
+    mutationObserver.observe(document.body, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        attributeFilter: ["src"],
+    });
+    posterObserver = new IntersectionObserver(entries => {
+        for (const entry of entries) {
+            if (entry.isIntersecting) revealElement(entry.target);
+        }
+    }, { threshold: 0.1 });
+    memoryObserver = new IntersectionObserver(entries => {
+        let released = false;
+        for (const entry of entries) {
+            if (entry.isIntersecting) {
+                engine.revive(entry.target).catch(() => { });
+            } else {
+                released = engine.park(entry.target) || released;
+            }
+        }
+        if (released) engine.trimMemory();
+    }, { rootMargin: MEMORY_ROOT_MARGIN });
+    document.querySelectorAll(TAG_SELECTOR).forEach(trySwapElement);
+}
+
+function stopDomWatcher() {
+    mutationObserver?.disconnect();
+    mutationObserver = null;
+    posterObserver?.disconnect();
+    posterObserver = null;
+    memoryObserver?.disconnect();
+    memoryObserver = null;
+}
+
+function revokeAllObjectUrls() {
+    engine.revokeAll();
+    for (const posterUrl of POSTER_CACHE.values()) URL.revokeObjectURL(posterUrl);
+    POSTER_CACHE.clear();
+    engine.reverse.clear();
+}
+
+function releaseMemoryEntry(key: string) {
+    const sourceUrl = engine.sources.get(key);
+    engine.release(key);
+    const posterUrl = POSTER_CACHE.get(key);
+    if (posterUrl) {
+        engine.restoreElements(posterUrl, sourceUrl);
+        URL.revokeObjectURL(posterUrl);
+        engine.reverse.delete(posterUrl);
+        POSTER_CACHE.delete(key);
+    }
+    PENDING_ACCESS.delete(key);
+}
+
+async function evictEntry(key: string): Promise<void> {
+    PINNED_KEYS.delete(key);
+    await db.delete(key);
+    releaseMemoryEntry(key);
+    broadcastSync({ type: "delete", keys: [key] });
+}
+
+function resetLocalCache() {
+    downloads.cancelAll();
+    engine.swapAllToOriginal();
+    revokeAllObjectUrls();
+    PENDING_ACCESS.clear();
+    PINNED_KEYS.clear();
+}
+
+function pauseCachingForRemoval(task?: () => Promise<void>): Promise<void> {
+    pauseCaching = true;
+    if (pauseTimer) clearTimeout(pauseTimer);
+    pauseTimer = null;
+    const resume = () => {
+        pauseTimer = setTimeout(() => {
+            pauseTimer = null;
+            pauseCaching = false;
+        }, REMOVAL_PAUSE);
+    };
+    if (!task) {
+        resume();
+        return Promise.resolve();
+    }
+    return task().finally(resume);
+}
+
+export function removeFromCache(keys: string[]): Promise<void> {
+    return pauseCachingForRemoval(async () => {
+        for (const key of keys) await evictEntry(key);
+    });
+}
+
+export function clearAllCaches(): Promise<void> {
+    return pauseCachingForRemoval(async () => {
+        downloads.cancelAll();
+        await db.clearAll();
+        resetLocalCache();
+        broadcastSync({ type: "clear" });
+    });
+}
+
+type SyncMessage =
+    | { type: "put"; key: string; sourceUrl: string; }
+    | { type: "delete"; keys: string[]; }
+    | { type: "pin"; key: string; pinned: boolean; }
+    | { type: "clear"; }
+    | { type: "backend"; id: StorageBackendId; };
+
+let syncChannel: BroadcastChannel | null = null;
+
+function withKeyLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    if (!navigator.locks) return task();
+    return navigator.locks.request(`${SYNC_CHANNEL}:${key}`, task) as Promise<T>;
+}
+
+function withBackendWriteLock<T>(exclusive: boolean, task: () => Promise<T>): Promise<T> {
+    if (!navigator.locks) return task();
+    return navigator.locks.request(`${SYNC_CHANNEL}:backend-writes`, { mode: exclusive ? "exclusive" : "shared" }, async () => {
+        if (!exclusive) await syncActiveBackend();
+        return task();
+    }) as Promise<T>;
+}
+
+function broadcastSync(message: SyncMessage) {
+    try {
+        syncChannel?.postMessage(message);
+    } catch (e) {
+        console.warn("[GifFavCache] Failed to broadcast cache update", e);
+    }
+}
+
+async function handleSyncMessage(message: SyncMessage) {
+    switch (message.type) {
+        case "put": {
+            FAILURES.delete(message.key);
+            if (engine.memory.has(message.key) || engine.pending.has(message.key) || !isFavoriteKey(message.key)) return;
+            const objUrl = await engine.cache(message.sourceUrl, "background", undefined, kindOfKey(message.key));
+            if (objUrl) engine.swapAllMatching(message.key, objUrl);
+            break;
+        }
+        case "delete":
+            pauseCachingForRemoval();
+            for (const key of message.keys) {
+                PINNED_KEYS.delete(key);
+                releaseMemoryEntry(key);
+            }
+            break;
+        case "pin":
+            if (message.pinned) PINNED_KEYS.add(message.key);
+            else PINNED_KEYS.delete(message.key);
+            break;
+        case "clear":
+            pauseCachingForRemoval();
+            resetLocalCache();
+            break;
+        case "backend":
+            activeBackendId = message.id;
+            break;
+    }
+}
+
+function startSync() {
+    stopSync();
+    if (typeof BroadcastChannel === "undefined") return;
+    syncChannel = new BroadcastChannel(SYNC_CHANNEL);
+    syncChannel.onmessage = e => {
+        handleSyncMessage(e.data as SyncMessage).catch(err => console.warn("[GifFavCache] Failed to apply cache update from another window", err));
+    };
+}
+
+function stopSync() {
+    syncChannel?.close();
+    syncChannel = null;
+}
+
+export async function redownloadEntry(key: string): Promise<boolean> {
+    const meta = await db.getMeta(key);
+    const rawUrl = meta?.sourceUrl;
+    if (!rawUrl) {
+        console.warn("[GifFavCache] No source URL recorded, can't re-download:", key);
+        return false;
+    }
+    clearFailure(key);
+    try {
+        const { blob, strategy } = await engine.fetchPreferred(key, rawUrl, "visible");
+        const kept: Partial<MetaEntry> = meta ? { ...getAccessInfo(meta), tier: meta.tier, sightings: meta.sightings } : {};
+        if (!await engine.store(key, blob, { ...kept, sourceUrl: rawUrl, fetchedVia: strategy })) return false;
+    } catch (e) {
+        if (!isAbortError(e)) recordFailure(key, rawUrl, e);
+        return false;
+    }
+    releaseMemoryEntry(key);
+    await engine.cache(rawUrl, "background", undefined, kindOfKey(key));
+    return true;
+}
+
+function isPreferredVariant(entry: MetaEntry, other: MetaEntry): boolean {
+    const preferred = FORMAT_MIME_TYPES[settings.store.preferredFormat as MediaFormat];
+    if ((entry.mimeType === preferred) !== (other.mimeType === preferred)) return entry.mimeType === preferred;
+    return entry.cachedAt > other.cachedAt;
+}
+
+function migrateCacheKeys(): Promise<void> {
+    return withKeyLock("migrate-keys", async () => {
+        const entries = await db.getAllMeta();
+        const byKey = new Map(entries.map(e => [e.url, e]));
+        let moved = 0;
+        for (const entry of entries) {
+            const key = engine.keyFor(entry.sourceUrl ?? kindVariantBase(entry.url), mediaKindOf(entry.mimeType));
+            if (key === entry.url) continue;
+            const existing = byKey.get(key);
+            try {
+                if (existing && !isPreferredVariant(entry, existing)) {
+                    await db.delete(entry.url);
+                    continue;
+                }
+                if (existing) await db.delete(key);
+                await db.renameMeta(entry.url, key);
+                byKey.set(key, { ...entry, url: key });
+                moved++;
+            } catch (e) {
+                console.warn("[GifFavCache] Failed to migrate cache key", entry.url, e);
+                return;
+            }
+        }
+        if (moved) console.log(`[GifFavCache] Moved ${moved} entries to new cache keys`);
+    });
+}
+
+export async function verifyCacheIntegrity(onProgress?: (checked: number, total: number) => void): Promise<{ checked: number; corrupt: number; repaired: number; }> {
+    const all = await db.getAllMeta();
+    const result = { checked: 0, corrupt: 0, repaired: 0 };
+    for (const meta of all) {
+        const blob = await db.getBlob(meta.url);
+        let problem: string | null = null;
+        if (!blob) problem = "missing blob";
+        else if (blob.size !== meta.size) problem = `size mismatch (${blob.size} != ${meta.size})`;
+        else if (meta.hash && await sha256(blob) !== meta.hash) problem = "hash mismatch";
+        else {
+            try {
+                await validateMedia(blob);
+            } catch (e) {
+                problem = e instanceof Error ? e.message : String(e);
+            }
+        }
+
+        result.checked++;
+        onProgress?.(result.checked, all.length);
+        if (!problem) continue;
+
+        result.corrupt++;
+        console.warn("[GifFavCache] Corrupt entry:", meta.url, problem);
+        await evictEntry(meta.url);
+        if (!isFavoriteKey(meta.url) || !meta.sourceUrl) continue;
+        await engine.cache(meta.sourceUrl, "background", undefined, kindOfKey(meta.url));
+        if (await db.getMeta(meta.url)) result.repaired++;
+    }
+    console.log(`[GifFavCache] Integrity check: ${result.checked} checked, ${result.corrupt} corrupt, ${result.repaired} repaired`);
+    return result;
+}
+
+async function exportCacheArchive(): Promise<{ file: File; count: number; }> {
+    await flushAccessTimes();
+    const items: Parameters<typeof packArchive>[0] = [];
+    for (const meta of await db.getAllMeta()) {
+        const blob = await db.getBlob(meta.url);
+        if (!blob) continue;
+        items.push({
+            entry: {
+                url: meta.url,
+                sourceUrl: meta.sourceUrl,
+                mimeType: meta.mimeType || blob.type,
+                cachedAt: meta.cachedAt,
+                lastAccessed: meta.lastAccessed,
+                hits: meta.hits,
+                favorite: isFavoriteKey(meta.url) || !!meta.favorite,
+            },
+            blob,
+        });
+    }
+    return { file: packArchive(items, Date.now()), count: items.length };
+}
+
+export async function saveCacheArchive(): Promise<{ count: number; size: number; }> {
+    const { file, count } = await exportCacheArchive();
+    saveFile(file);
+    return { count, size: file.size };
+}
+
+export async function importCacheArchive(file: File): Promise<{ imported: number; skipped: number; invalid: number; }> {
+    const { manifest, dataStart } = await readArchiveManifest(file);
+    const dataSize = file.size - dataStart;
+    const policy = settings.store.importConflictPolicy;
+    const result = { imported: 0, skipped: 0, invalid: 0 };
+
+    for (const entry of manifest.entries) {
+        if (!isValidArchiveEntry(entry, dataSize)) {
+            result.invalid++;
+            continue;
+        }
+        const key = engine.keyFor(entry.sourceUrl ?? kindVariantBase(entry.url), mediaKindOf(entry.mimeType));
+        const existing = await db.getMeta(key);
+        if (existing && (policy === "skip" || (policy === "newer" && existing.cachedAt >= entry.cachedAt))) {
+            result.skipped++;
+            continue;
+        }
+
+        const start = dataStart + entry.offset;
+        const blob = await validateMedia(file.slice(start, start + entry.size, entry.mimeType)).catch(() => null);
+        if (!blob || !await engine.store(key, blob, { sourceUrl: entry.sourceUrl, cachedAt: entry.cachedAt, lastAccessed: entry.lastAccessed, hits: entry.hits, favorite: entry.favorite ? 1 : 0 })) {
+            result.invalid++;
+            continue;
+        }
+
+        if (entry.favorite) FAVORITE_KEYS.add(key);
+        clearFailure(key);
+        if (entry.sourceUrl) await engine.cache(entry.sourceUrl, "background", undefined, kindOfKey(key));
+        result.imported++;
+    }
+
+    await engine.prune();
+    console.log(`[GifFavCache] Imported ${result.imported} entries (${result.skipped} skipped, ${result.invalid} invalid)`);
+    return result;
+}
+
+async function formatCacheSummary(): Promise<string> {
+    const { entries, size, budget, quota } = await getCacheSummary();
+    const { total, requests, hitRate } = summarizeStats(await getDailyStats());
+    const lines = [
+        `**${entries.length}** GIFs cached (${FAVORITE_KEYS.size} favorites), ${formatBytes(size)}${Number.isFinite(budget) ? ` / ${formatBytes(budget)} budget` : ""}`,
+        `Storage: ${STORAGE_BACKENDS[activeBackendId].label}${quota ? `, ${formatBytes(quota.usage)} of ${formatBytes(quota.quota)} quota used` : ""}`,
+        requests
+            ? `Hit rate (${STATS_DAYS}d): **${(hitRate * 100).toFixed(1)}%**, ${formatBytes(total.bytesFromCache)} served from cache, ${formatBytes(total.bytesFromNetwork)} downloaded`
+            : `No GIFs served in the last ${STATS_DAYS} days.`,
+    ];
+    return lines.join("\n");
+}
+
+async function preloadWithProgress(report: (message: string) => void): Promise<void> {
+    const start = downloads.progress;
+    let milestone = 0;
+    const unsubscribe = downloads.onProgress(progress => {
+        const total = progress.total - start.total;
+        const done = progress.completed + progress.failed - start.completed - start.failed;
+        if (total < 4 || done >= total) return;
+        const percent = Math.floor(done / total * 4) * 25;
+        if (percent > milestone) {
+            milestone = percent;
+            report(`⬇ ${done}/${total} downloaded (${percent}%)`);
+        }
+    });
+    try {
+        await preloadAllFavorites();
+    } finally {
+        unsubscribe();
+    }
+    const completed = downloads.progress.completed - start.completed;
+    const failed = downloads.progress.failed - start.failed;
+    report(`✅ Preload finished: ${completed} downloaded${failed ? `, ${failed} failed` : ""}`);
+}
+
+function resolveOriginalUrl(src: string): string {
+    if (!src?.startsWith("blob:")) return src;
+    for (const el of document.querySelectorAll(TAG_SELECTOR)) {
+        const original = el.getAttribute("src") === src && engine.originalSrc(el);
+        if (original) return original;
+    }
+    const key = engine.reverse.get(src);
+    return (key && engine.sources.get(key)) ?? src;
+}
+
+function cacheMenuItem(rawSrc: string | undefined) {
+    if (!rawSrc) return null;
+    const src = resolveOriginalUrl(rawSrc);
+    if (!engine.isCacheable(src)) return null;
+    const key = engine.keyFor(src, engine.mediaKindOfUrl(src));
+    const pinned = PINNED_KEYS.has(key);
+    return (
+        <Menu.MenuItem id="gif-fav-cache" label="GIF cache">
+            <Menu.MenuItem id="gif-fav-cache-add" label="Cache this GIF" action={() => engine.cache(src, "visible", undefined, engine.mediaKindOfUrl(src)).catch(console.error)} />
+            <Menu.MenuItem id="gif-fav-cache-pin" label={pinned ? "Unpin from cache" : "Pin in cache"} action={() => setPinned(key, src, !pinned)} />
+            <Menu.MenuItem id="gif-fav-cache-remove" label="Remove from cache" color="danger" action={() => removeFromCache([...new Set([kindVariantBase(key), key])])} />
+            <Menu.MenuItem id="gif-fav-cache-copy" label="Copy original URL" action={() => copyWithToast(src, "Original URL copied to clipboard")} />
+        </Menu.MenuItem>
+    );
+}
+
+const messageContextMenuPatch: NavContextMenuPatchCallback = (children, props) => {
+    const item = cacheMenuItem(props?.itemSrc ?? props?.itemHref);
+    if (!item) return;
+    const group = findGroupChildrenByChildId("copy-link", children) ?? children;
+    group.push(item);
+};
+
+const imageContextMenuPatch: NavContextMenuPatchCallback = (children, props) => {
+    const item = cacheMenuItem(props?.src);
+    if (!item) return;
+    const group = findGroupChildrenByChildId("copy-native-link", children) ?? children;
+    group.push(item);
+};
+
+let preloadTimeout: ReturnType<typeof setTimeout> | null = null;
+
+export default definePlugin({
+    name: "GifFavCache",
+    description: "Caches your favorited GIFs locally (memory + IndexedDB) and swaps them in the moment they'd render, for instant loading.",
+    authors: [
+        { name: "ns5h", id: 1278368743331991646n },
+    ],
+    settings,
+
+    commands: [
+        {
+            name: "gifcache stats",
+            description: "Show GIF cache size, quota and hit rate",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: async (_, ctx) => {
+                sendBotMessage(ctx.channel.id, { content: await formatCacheSummary() });
+            },
+        },
+        {
+            name: "gifcache preload",
+            description: "Download all favorited GIFs into the cache",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: async (_, ctx) => {
+                sendBotMessage(ctx.channel.id, { content: `⬇ Preloading ${getFavoriteGifRawUrls().length} favorited GIFs…` });
+                await preloadWithProgress(content => sendBotMessage(ctx.channel.id, { content }));
+            },
+        },
+        {
+            name: "gifcache evict",
+            description: "Remove a GIF from the cache",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "url",
+                    description: "URL of the GIF to remove",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: true,
+                },
+            ],
+            execute: async (args, ctx) => {
+                const key = engine.canonicalUrl(findOption(args, "url", ""));
+                const keys = (await db.getAllMeta()).map(e => e.url).filter(url => kindVariantBase(url) === key);
+                const cached = keys.length > 0;
+                if (cached) await removeFromCache(keys);
+                sendBotMessage(ctx.channel.id, { content: cached ? `🗑️ Removed <${key}> from the cache` : `❌ <${key}> is not cached` });
+            },
+        },
+        {
+            name: "gifcache clear",
+            description: "Delete every cached GIF",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: async (_, ctx) => {
+                await clearAllCaches();
+                sendBotMessage(ctx.channel.id, { content: "✅ Cache cleared!" });
+            },
+        },
+        {
+            name: "gifcache export",
+            description: "Save the GIF cache as an archive file",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: async (_, ctx) => {
+                try {
+                    const { count, size } = await saveCacheArchive();
+                    sendBotMessage(ctx.channel.id, { content: `📤 Exported ${count} GIFs (${formatBytes(size)})` });
+                } catch (e) {
+                    console.error("[GifFavCache] Export failed", e);
+                    sendBotMessage(ctx.channel.id, { content: "❌ Export failed" });
+                }
+            },
+        },
+    ],
+
+    settingsAboutComponent: () => <CacheInspector />,
+
+    patches: [
+        {
+            find: '"handleSelectGIF",',
+            replacement: {
+                match: /(?<=\.jsxs?\)\("(img|video)",\{[^}]{0,200}?src:)(\i(?:\.\i)*)/g,
+                replace: '$self.resolveUrl($2,"gifPicker","$1")',
+            },
+        },
+        {
+            find: '"renderLinkComponent","maxWidth"',
+            replacement: {
+                match: /(?<=\.jsxs?\)\("img",\{[^}]{0,300}?src:)(\i)(?=[,}])/,
+                replace: '$self.resolveUrl($1,"messageMedia","img")',
+            },
+        },
+        {
+            find: ".embedVideo,",
+            replacement: {
+                match: /(?<=\.jsxs?\)\("video",\{[^}]{0,300}?src:)(\i(?:\.\i)*)/,
+                replace: '$self.resolveUrl($1,"embeds","video")',
+            },
+        },
+    ],
+
+    resolveUrl(src: string | undefined, patch?: string, tag?: "img" | "video"): string | undefined {
+        if (patch) PATCH_HITS.set(patch, (PATCH_HITS.get(patch) ?? 0) + 1);
+        if (typeof src !== "string" || !engine.isCacheable(src)) return src;
+        const kind = tag ? (tag === "img" ? "image" : "video") : engine.mediaKindOfUrl(src);
+        const key = engine.keyFor(src, kind);
+        const posterUrl = POSTER_CACHE.get(key);
+        if (tag === "img" && posterUrl && settings.store.posterMode !== "off") return posterUrl;
+        const cachedKey = engine.memoryKey(key);
+        if (cachedKey && engine.servesKind(cachedKey, kind)) {
+            engine.markUsed(cachedKey);
+            return engine.memory.get(cachedKey);
+        }
+        if (isFavoriteKey(key) && !pauseCaching) engine.cache(src, "visible", undefined, kind).catch(console.error);
+        return src;
+    },
+
+    resolveOriginalUrl,
+
+    contextMenus: {
+        "message": messageContextMenuPatch,
+        "image-context": imageContextMenuPatch,
+    },
+
+    _onFavAdded: null as ((event: any) => void) | null,
+    _onProtoUpdate: null as (() => void) | null,
+
+    async start() {
+        this._onFavAdded = (event: any) => {
+            const src = event?.gif?.src ?? event?.gif?.url;
+            if (src) {
+                console.log("[GifFavCache] New favorite, caching:", src);
+                FAVORITE_KEYS.add(engine.canonicalUrl(src));
+                engine.cache(src).catch(console.error);
+            }
+        };
+
+        this._onProtoUpdate = () => {
+            const urls = getFavoriteGifRawUrls();
+            refreshFavoriteKeys(urls);
+            snapshotFavorites();
+            db.getAllMeta().then(entries => {
+                const stored = new Set(entries.map(entry => entry.url));
+                for (const url of urls) {
+                    const key = engine.canonicalUrl(url);
+                    if (!stored.has(key) && !engine.pending.has(key)) {
+                        engine.cache(url, "background").catch(console.error);
+                    }
+                }
+            });
+        };
+
+        FluxDispatcher.subscribe("FAVORITE_GIF_ADDED", this._onFavAdded);
+        FluxDispatcher.subscribe("USER_SETTINGS_PROTO_UPDATE", this._onProtoUpdate);
+
+        startSync();
+        await initStorageBackend();
+        await migrateCacheKeys();
+        loadPinnedKeys().catch(e => console.warn("[GifFavCache] Failed to load pinned entries", e));
+        loadFailures().catch(e => console.warn("[GifFavCache] Failed to load download failures", e));
+        db.migrateLegacyBlobs().catch(e => console.warn("[GifFavCache] Failed to migrate legacy blobs", e));
+        startDomWatcher();
+        startAccessFlush();
+        pluginRunning = true;
+        startNetworkListeners();
+        if (settings.store.preloadOnStartup) {
+            preloadTimeout = setTimeout(() => {
+                if (navigator.onLine) preloadAllFavorites();
+            }, 5000);
+        }
+        scheduleAutoRefresh();
+        console.log("[GifFavCache] Started.");
+    },
+
+    stop() {
+        if (this._onFavAdded) FluxDispatcher.unsubscribe("FAVORITE_GIF_ADDED", this._onFavAdded);
+        if (this._onProtoUpdate) FluxDispatcher.unsubscribe("USER_SETTINGS_PROTO_UPDATE", this._onProtoUpdate);
+        pluginRunning = false;
+        stopNetworkListeners();
+        stopAutoRefresh();
+        if (settingsPruneTimer !== null) {
+            clearTimeout(settingsPruneTimer);
+            settingsPruneTimer = null;
+        }
+        stopDomWatcher();
+        stopSync();
+        if (preloadTimeout) {
+            clearTimeout(preloadTimeout);
+            preloadTimeout = null;
+        }
+
+        stopAccessFlush();
+        flushAccessTimes();
+        flushStats();
+        downloads.cancelAll();
+
+        engine.swapAllToOriginal();
+
+        revokeAllObjectUrls();
+        FAVORITE_KEYS.clear();
+        PINNED_KEYS.clear();
+        engine.pending.clear();
+        FAILURES.clear();
+        lastSnapshotSignature = null;
+        if (pauseTimer) clearTimeout(pauseTimer);
+        pauseTimer = null;
+        pauseCaching = false;
+        console.log("[GifFavCache] Stopped.");
+    },
+});
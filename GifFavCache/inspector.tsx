@@ -0,0 +1,894 @@
+import { chooseFile } from "@utils/web";
+import { React } from "@webpack/common";
+
+import { ARCHIVE_EXTENSION } from "./archive";
+import { compileRuleRegex, DEFAULT_HOST_RULES, formatBytes, GifCacheEngine, HostRule, hostOf, HOUR, MetaEntry, normalizeUrl, storedBytes } from "./engine";
+import { activeBackendId, clearAllCaches, clearFailure, db, diffFavorites, downloads, engine, FAILURES, FAVORITE_KEYS, FETCH_STRATEGIES, formatDate, getAccessInfo, getByteBudget, getCacheSummary, getDailyStats, getFavoriteRecords, getPosterUrl, importCacheArchive, isFavoriteKey, mediaFetcher, mutationObserver, Native, PATCH_HITS, PINNED_KEYS, POSTER_CACHE, preloadAllFavorites, pruneOrphans, redownloadEntry, removeFromCache, RENDER_PATCHES, restoreFavorites, retryFailure, saveCacheArchive, setPinned, settings, snapshotFavorites, summarizeStats, UserSettingsProtoStore, verifyCacheIntegrity } from "./index";
+import { DownloadProgress } from "./queue";
+import { DailyStats, FailureRecord, FavoriteRecord, FavoritesSnapshot, STATS_DAYS } from "./storage";
+
+interface CacheEntry {
+    url: string;
+    sourceUrl?: string;
+    host: string;
+    size: number;
+    hash?: string;
+    mimeType: string;
+    cachedAt: number;
+    lastAccessed: number;
+    hits: number;
+    seenTier: boolean;
+    favorite: boolean;
+    pinned: boolean;
+    orphanedAt?: number;
+}
+
+function toCacheEntry(e: MetaEntry): CacheEntry {
+    return {
+        url: e.url,
+        sourceUrl: e.sourceUrl,
+        host: hostOf(e.sourceUrl ?? e.url),
+        size: e.size,
+        hash: e.hash,
+        mimeType: e.mimeType,
+        cachedAt: e.cachedAt,
+        ...getAccessInfo(e),
+        seenTier: engine.isSeenTier(e),
+        favorite: FAVORITE_KEYS.size ? isFavoriteKey(e.url) : !!e.favorite,
+        pinned: PINNED_KEYS.has(e.url),
+        orphanedAt: engine.isOrphaned(e) ? e.orphanedAt : undefined,
+    };
+}
+
+type CacheSortKey = "cachedAt" | "lastAccessed" | "size" | "hits";
+
+const BROWSER_ROW_HEIGHT = 49;
+const BROWSER_VIEWPORT_HEIGHT = 320;
+const BROWSER_OVERSCAN = 6;
+
+const styles: Record<string, React.CSSProperties> = {
+    wrap: { fontFamily: "monospace", fontSize: 12, color: "var(--text-normal)" },
+    diag: { display: "flex", gap: 10, flexWrap: "wrap" as const, marginBottom: 10, fontSize: 11, color: "var(--text-muted)" },
+    diagOk: { color: "var(--text-positive)" },
+    diagBad: { color: "var(--text-danger)" },
+    header: { display: "flex", alignItems: "center", gap: 8, marginBottom: 10, flexWrap: "wrap" as const },
+    badge: { background: "var(--brand-experiment)", borderRadius: 4, padding: "2px 8px", fontSize: 11, color: "#fff", fontWeight: 700 },
+    btn: { background: "var(--button-secondary-background)", border: "none", borderRadius: 4, padding: "4px 12px", color: "var(--text-normal)", cursor: "pointer", fontSize: 12 },
+    btnDanger: { background: "var(--button-danger-background)", border: "none", borderRadius: 4, padding: "4px 12px", color: "#fff", cursor: "pointer", fontSize: 12 },
+    btnActive: { background: "var(--brand-experiment)", border: "none", borderRadius: 4, padding: "4px 12px", color: "#fff", cursor: "pointer", fontSize: 12 },
+    table: { width: "100%", borderCollapse: "collapse" as const, marginTop: 6 },
+    th: { textAlign: "left" as const, padding: "4px 8px", borderBottom: "1px solid var(--background-modifier-accent)", color: "var(--text-muted)", fontSize: 11, textTransform: "uppercase" as const },
+    td: { padding: "4px 8px", borderBottom: "1px solid var(--background-modifier-accent)", verticalAlign: "middle" as const },
+    url: { maxWidth: 340, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" as const, display: "block", color: "var(--text-link)" },
+    status: { color: "var(--text-positive)", marginLeft: "auto", fontSize: 11 },
+    empty: { color: "var(--text-muted)", textAlign: "center" as const, padding: 20 },
+    scroll: { maxHeight: 320, overflowY: "auto" as const, marginTop: 4 },
+    tabs: { display: "flex", gap: 4, marginBottom: 10, borderBottom: "1px solid var(--background-modifier-accent)" },
+    tab: { background: "none", border: "none", borderBottom: "2px solid transparent", padding: "4px 10px", color: "var(--text-muted)", cursor: "pointer", fontSize: 12 },
+    tabActive: { background: "none", border: "none", borderBottom: "2px solid var(--brand-experiment)", padding: "4px 10px", color: "var(--text-normal)", cursor: "pointer", fontSize: 12 },
+    select: { background: "var(--input-background)", border: "none", borderRadius: 4, padding: "3px 6px", color: "var(--text-normal)", fontSize: 12 },
+    added: { color: "var(--text-positive)" },
+    removed: { color: "var(--text-danger)" },
+    progress: { display: "flex", alignItems: "center", gap: 8, marginBottom: 10, fontSize: 11, color: "var(--text-muted)" },
+    progressTrack: { flex: 1, height: 6, borderRadius: 3, background: "var(--background-modifier-accent)", overflow: "hidden" },
+    progressFill: { height: "100%", background: "var(--brand-experiment)", transition: "width 0.2s" },
+    tierTag: { marginLeft: 6, fontSize: 10, color: "var(--text-muted)", textTransform: "uppercase" as const },
+    input: { background: "var(--input-background)", border: "none", borderRadius: 4, padding: "3px 6px", color: "var(--text-normal)", fontSize: 12, fontFamily: "monospace", width: "100%", boxSizing: "border-box" as const },
+    thSticky: { position: "sticky" as const, top: 0, zIndex: 1, background: "var(--background-primary)", cursor: "pointer", userSelect: "none" as const },
+    bulk: { display: "flex", alignItems: "center", gap: 8, marginBottom: 6, fontSize: 11, color: "var(--text-muted)" },
+    chart: { display: "flex", alignItems: "flex-end", gap: 2, height: 80, padding: "4px 0", borderBottom: "1px solid var(--background-modifier-accent)" },
+    chartColumn: { flex: 1, display: "flex", flexDirection: "column-reverse" as const, height: "100%" },
+    chartTitle: { margin: "12px 0 4px", fontSize: 11, color: "var(--text-muted)", textTransform: "uppercase" as const },
+    legend: { display: "inline-flex", alignItems: "center", gap: 4, marginRight: 10, fontSize: 11, color: "var(--text-muted)" },
+    swatch: { width: 8, height: 8, borderRadius: 2, display: "inline-block" },
+    thumb: { width: 40, height: 40, objectFit: "cover" as const, borderRadius: 4, display: "block", background: "var(--background-secondary)" },
+};
+
+function Thumbnail({ entry }: { entry: CacheEntry; }) {
+    const [preview, setPreview] = React.useState<{ src: string; video: boolean; } | null>(() => {
+        const posterUrl = POSTER_CACHE.get(entry.url);
+        return posterUrl ? { src: posterUrl, video: false } : null;
+    });
+
+    React.useEffect(() => {
+        let isMounted = true;
+        let ownedUrl: string | null = null;
+        (async () => {
+            const posterUrl = await getPosterUrl(entry.url);
+            const memoryUrl = engine.memory.get(entry.url);
+            if (posterUrl || memoryUrl) {
+                if (isMounted) setPreview(posterUrl ? { src: posterUrl, video: false } : { src: memoryUrl!, video: entry.mimeType.startsWith("video/") });
+                return;
+            }
+            const blob = await db.getBlob(entry.url);
+            if (!isMounted || !blob) return;
+            ownedUrl = URL.createObjectURL(blob);
+            setPreview({ src: ownedUrl, video: blob.type.startsWith("video/") });
+        })();
+        return () => {
+            isMounted = false;
+            if (ownedUrl) URL.revokeObjectURL(ownedUrl);
+        };
+    }, [entry.url]);
+
+    if (!preview) return <div style={styles.thumb} />;
+    return preview.video
+        ? <video src={preview.src} style={styles.thumb} muted preload="metadata" />
+        : <img src={preview.src} style={styles.thumb} loading="lazy" alt="" />;
+}
+
+function CacheBrowser({ entries, onRemoved, onChanged }: { entries: CacheEntry[]; onRemoved(urls: string[]): void; onChanged(): void; }) {
+    const [query, setQuery] = React.useState("");
+    const [sortKey, setSortKey] = React.useState<CacheSortKey>("cachedAt");
+    const [sortDesc, setSortDesc] = React.useState(true);
+    const [selected, setSelected] = React.useState<Set<string>>(new Set());
+    const [scrollTop, setScrollTop] = React.useState(0);
+    const [busy, setBusy] = React.useState<string | null>(null);
+    const scrollRef = React.useRef<HTMLDivElement>(null);
+
+    const visibleEntries = React.useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        const filtered = needle
+            ? entries.filter(e => e.url.toLowerCase().includes(needle) || e.sourceUrl?.toLowerCase().includes(needle) || e.host.toLowerCase().includes(needle))
+            : entries;
+        const direction = sortDesc ? -1 : 1;
+        return [...filtered].sort((a, b) => (a[sortKey] - b[sortKey]) * direction);
+    }, [entries, query, sortKey, sortDesc]);
+
+    React.useEffect(() => {
+        setSelected(prev => {
+            const present = new Set(entries.map(e => e.url));
+            const next = new Set([...prev].filter(url => present.has(url)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [entries]);
+
+    React.useEffect(() => {
+        if (scrollRef.current) scrollRef.current.scrollTop = 0;
+        setScrollTop(0);
+    }, [query, sortKey, sortDesc]);
+
+    function sortBy(key: CacheSortKey) {
+        if (key === sortKey) setSortDesc(!sortDesc);
+        else {
+            setSortKey(key);
+            setSortDesc(true);
+        }
+    }
+
+    function toggle(url: string) {
+        const next = new Set(selected);
+        if (!next.delete(url)) next.add(url);
+        setSelected(next);
+    }
+
+    const allSelected = visibleEntries.length > 0 && visibleEntries.every(e => selected.has(e.url));
+
+    function toggleAll() {
+        const next = new Set(selected);
+        for (const e of visibleEntries) {
+            if (allSelected) next.delete(e.url);
+            else next.add(e.url);
+        }
+        setSelected(next);
+    }
+
+    async function togglePin(entry: CacheEntry) {
+        await setPinned(entry.url, entry.sourceUrl, !entry.pinned);
+        onChanged();
+    }
+
+    async function deleteUrls(urls: string[]) {
+        if (urls.length > 1 && !confirm(`Delete ${urls.length} cached GIFs?`)) return;
+        setBusy("delete");
+        await removeFromCache(urls);
+        onRemoved(urls);
+        setSelected(new Set());
+        setBusy(null);
+    }
+
+    async function redownloadSelected() {
+        setBusy("redownload");
+        await Promise.all([...selected].map(url => redownloadEntry(url)));
+        setSelected(new Set());
+        setBusy(null);
+        onChanged();
+    }
+
+    const start = Math.max(0, Math.floor(scrollTop / BROWSER_ROW_HEIGHT) - BROWSER_OVERSCAN);
+    const end = Math.min(visibleEntries.length, Math.ceil((scrollTop + BROWSER_VIEWPORT_HEIGHT) / BROWSER_ROW_HEIGHT) + BROWSER_OVERSCAN);
+    const header = (key: CacheSortKey, label: string) => (
+        <th style={{ ...styles.th, ...styles.thSticky }} onClick={() => sortBy(key)}>
+            {label}{sortKey === key ? (sortDesc ? " ▼" : " ▲") : ""}
+        </th>
+    );
+
+    return (
+        <>
+            <div style={styles.bulk}>
+                <input style={{ ...styles.input, flex: 1 }} value={query} placeholder="Search URLs and hosts…" onChange={e => setQuery(e.currentTarget.value)} />
+                <span>{visibleEntries.length} shown</span>
+                {selected.size > 0 && <>
+                    <span>{selected.size} selected</span>
+                    <button style={styles.btn} onClick={redownloadSelected} disabled={busy !== null}>
+                        {busy === "redownload" ? "Downloading…" : "↻ Re-download"}
+                    </button>
+                    <button style={styles.btnDanger} onClick={() => deleteUrls([...selected])} disabled={busy !== null}>
+                        {busy === "delete" ? "Deleting…" : "🗑 Delete"}
+                    </button>
+                </>}
+            </div>
+            <div ref={scrollRef} style={{ ...styles.scroll, maxHeight: BROWSER_VIEWPORT_HEIGHT }} onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+                <table style={styles.table}>
+                    <thead>
+                        <tr>
+                            <th style={{ ...styles.th, ...styles.thSticky }}>
+                                <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+                            </th>
+                            <th style={{ ...styles.th, ...styles.thSticky }}></th>
+                            <th style={{ ...styles.th, ...styles.thSticky }}>URL</th>
+                            <th style={{ ...styles.th, ...styles.thSticky }}>Fav</th>
+                            {header("size", "Size")}
+                            {header("cachedAt", "Cached")}
+                            {header("lastAccessed", "Last used")}
+                            {header("hits", "Hits")}
+                            <th style={{ ...styles.th, ...styles.thSticky }}></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {start > 0 && <tr style={{ height: start * BROWSER_ROW_HEIGHT }} />}
+                        {visibleEntries.slice(start, end).map(e => (
+                            <tr key={e.url} style={{ height: BROWSER_ROW_HEIGHT }}>
+                                <td style={styles.td}>
+                                    <input type="checkbox" checked={selected.has(e.url)} onChange={() => toggle(e.url)} />
+                                </td>
+                                <td style={styles.td}><Thumbnail entry={e} /></td>
+                                <td style={styles.td}>
+                                    <a href={e.sourceUrl} target="_blank" rel="noreferrer" style={styles.url} title={e.url}>
+                                        {e.url.split("/").pop()?.split("?")[0] ?? e.url}
+                                    </a>
+                                    <span style={styles.tierTag}>{e.host}</span>
+                                    {e.seenTier && <span style={styles.tierTag}>from chat</span>}
+                                    {e.orphanedAt && <span style={styles.tierTag} title={`Unfavorited ${formatDate(e.orphanedAt)}`}>orphaned</span>}
+                                    {e.pinned && <span style={styles.tierTag}>pinned</span>}
+                                </td>
+                                <td style={styles.td}>{e.favorite ? <b style={styles.diagOk}>★</b> : "—"}</td>
+                                <td style={styles.td}>{formatBytes(e.size)}</td>
+                                <td style={styles.td}>{formatDate(e.cachedAt)}</td>
+                                <td style={styles.td}>{formatDate(e.lastAccessed)}</td>
+                                <td style={styles.td}>{e.hits}</td>
+                                <td style={styles.td}>
+                                    <button style={e.pinned ? styles.btnActive : styles.btn} onClick={() => togglePin(e)} disabled={busy !== null} title={e.pinned ? "Unpin" : "Pin in cache"}>📌</button>{" "}
+                                    <button style={styles.btnDanger} onClick={() => deleteUrls([e.url])} disabled={busy !== null}>✕</button>
+                                </td>
+                            </tr>
+                        ))}
+                        {end < visibleEntries.length && <tr style={{ height: (visibleEntries.length - end) * BROWSER_ROW_HEIGHT }} />}
+                    </tbody>
+                </table>
+                {!visibleEntries.length && <div style={styles.empty}>No cached GIFs match "{query}".</div>}
+            </div>
+        </>
+    );
+}
+
+
+function FavoritesHistory() {
+    const [snapshots, setSnapshots] = React.useState<FavoritesSnapshot[]>([]);
+    const [baseId, setBaseId] = React.useState<number | null>(null);
+    const [current, setCurrent] = React.useState<FavoriteRecord[] | null>(null);
+    const [restoring, setRestoring] = React.useState(false);
+    const [status, setStatus] = React.useState<string | null>(null);
+
+    async function load() {
+        await snapshotFavorites();
+        const all = await db.getSnapshots();
+        setSnapshots(all);
+        setCurrent(getFavoriteRecords());
+        const dayAgo = Date.now() - 24 * HOUR;
+        setBaseId(prev => prev ?? (all.find(s => s.takenAt <= dayAgo) ?? all[all.length - 1])?.id ?? null);
+    }
+
+    React.useEffect(() => { load(); }, []);
+
+    const base = snapshots.find(s => s.id === baseId);
+    const diff = base && current ? diffFavorites(base.favorites, current) : null;
+
+    async function restore() {
+        if (!diff?.removed.length) return;
+        if (!confirm(`Re-add ${diff.removed.length} favorites removed since ${formatDate(base!.takenAt)}?`)) return;
+        setRestoring(true);
+        setStatus(null);
+        try {
+            await restoreFavorites(diff.removed);
+            setStatus(`✅ Restored ${diff.removed.length} favorites`);
+        } catch (e) {
+            console.error("[GifFavCache] Restore failed", e);
+            setStatus("❌ Restore failed");
+        }
+        await load();
+        setRestoring(false);
+    }
+
+    function renderRow(f: FavoriteRecord, kind: "added" | "removed") {
+        const key = engine.canonicalUrl(f.src || f.key);
+        return (
+            <tr key={`${kind}-${f.key}`}>
+                <td style={styles.td}><b style={styles[kind]}>{kind === "added" ? "+" : "−"}</b></td>
+                <td style={styles.td}>
+                    <a href={f.src || f.key} target="_blank" rel="noreferrer" style={styles.url} title={f.key}>
+                        {key.split("/").pop() ?? f.key}
+                    </a>
+                </td>
+                <td style={styles.td}>{f.width}×{f.height}</td>
+                <td style={styles.td}>{engine.memory.has(key) ? "cached" : ""}</td>
+            </tr>
+        );
+    }
+
+    if (!snapshots.length) return <div style={styles.empty}>No favorites snapshots yet. One is saved whenever your favorites change.</div>;
+
+    return (
+        <div>
+            <div style={styles.header}>
+                <span>Compare current favorites with</span>
+                <select style={styles.select} value={baseId ?? ""} onChange={e => setBaseId(Number(e.currentTarget.value))}>
+                    {snapshots.map(s => (
+                        <option key={s.id} value={s.id}>{formatDate(s.takenAt)} ({s.favorites.length} GIFs)</option>
+                    ))}
+                </select>
+                <button style={styles.btn} onClick={restore} disabled={restoring || !diff?.removed.length}>
+                    {restoring ? "Restoring…" : `↩ Restore ${diff?.removed.length ?? 0} removed`}
+                </button>
+                {status && <span style={styles.status}>{status}</span>}
+            </div>
+
+            {!current
+                ? <div style={styles.empty}>Favorites are not loaded yet.</div>
+                : !diff || (!diff.added.length && !diff.removed.length)
+                    ? <div style={styles.empty}>No changes since this snapshot.</div>
+                    : (
+                        <div style={styles.scroll}>
+                            <table style={styles.table}>
+                                <tbody>
+                                    {diff.removed.map(f => renderRow(f, "removed"))}
+                                    {diff.added.map(f => renderRow(f, "added"))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )
+            }
+        </div>
+    );
+}
+
+function FetchStrategyStats() {
+    const hosts = [...mediaFetcher.attempts].sort(([a], [b]) => a.localeCompare(b));
+    if (!hosts.length) return <div style={styles.empty}>No downloads yet this session.</div>;
+
+    return (
+        <div style={styles.scroll}>
+            <table style={styles.table}>
+                <thead>
+                    <tr>
+                        <th style={styles.th}>Host</th>
+                        <th style={styles.th}>Winner</th>
+                        {FETCH_STRATEGIES.map(s => <th key={s.name} style={styles.th}>{s.name}</th>)}
+                    </tr>
+                </thead>
+                <tbody>
+                    {hosts.map(([host, perStrategy]) => (
+                        <tr key={host}>
+                            <td style={styles.td}>{host}</td>
+                            <td style={styles.td}><b style={styles.diagOk}>{mediaFetcher.winners.get(host) ?? "—"}</b></td>
+                            {FETCH_STRATEGIES.map(s => {
+                                const stats = perStrategy.get(s.name);
+                                return (
+                                    <td key={s.name} style={styles.td} title={stats?.lastError}>
+                                        {stats ? <>{stats.ok} ✓ / <span style={stats.failed ? styles.diagBad : undefined}>{stats.failed} ✕</span></> : "—"}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+export function HostRulesEditor() {
+    const { hostRules } = settings.use(["hostRules"]);
+    const rules: HostRule[] = hostRules ?? DEFAULT_HOST_RULES;
+
+    function save(next: HostRule[]) {
+        settings.store.hostRules = next;
+    }
+
+    function update(index: number, patch: Partial<HostRule>) {
+        save(rules.map((rule, i) => i === index ? { ...rule, ...patch } : rule));
+    }
+
+    function move(index: number, by: number) {
+        const next = [...rules];
+        const [rule] = next.splice(index, 1);
+        next.splice(index + by, 0, rule);
+        save(next);
+    }
+
+    return (
+        <div style={styles.wrap}>
+            <div style={styles.header}>
+                <span>Host rules — first match wins, unmatched hosts are allowed</span>
+                <button style={styles.btn} onClick={() => save([...rules, { host: "", action: "allow", maxBytes: 0, keepQuery: false, unwrap: "", unwrapTemplate: "" }])}>+ Add rule</button>
+                <button style={styles.btn} onClick={() => save(DEFAULT_HOST_RULES)}>Reset to defaults</button>
+            </div>
+            <table style={styles.table}>
+                <thead>
+                    <tr>
+                        <th style={styles.th}>Host</th>
+                        <th style={styles.th}>Action</th>
+                        <th style={styles.th}>Max bytes</th>
+                        <th style={styles.th}>Keep query</th>
+                        <th style={styles.th}>Unwrap regex</th>
+                        <th style={styles.th}>Template</th>
+                        <th style={styles.th}></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rules.map((rule, i) => (
+                        <tr key={i}>
+                            <td style={styles.td}>
+                                <input style={styles.input} value={rule.host} placeholder="*.example.com" onChange={e => update(i, { host: e.currentTarget.value })} />
+                            </td>
+                            <td style={styles.td}>
+                                <select style={styles.select} value={rule.action} onChange={e => update(i, { action: e.currentTarget.value as HostRule["action"] })}>
+                                    <option value="allow">allow</option>
+                                    <option value="deny">deny</option>
+                                </select>
+                            </td>
+                            <td style={styles.td}>
+                                <input style={styles.input} type="number" min={0} value={rule.maxBytes} title="0 = no limit" onChange={e => update(i, { maxBytes: Math.max(0, Number(e.currentTarget.value) || 0) })} />
+                            </td>
+                            <td style={styles.td}>
+                                <input type="checkbox" checked={rule.keepQuery} onChange={e => update(i, { keepQuery: e.currentTarget.checked })} />
+                            </td>
+                            <td style={styles.td}>
+                                <input
+                                    style={compileRuleRegex(rule.unwrap, false) || !rule.unwrap ? styles.input : { ...styles.input, ...styles.diagBad }}
+                                    value={rule.unwrap}
+                                    placeholder="optional"
+                                    onChange={e => update(i, { unwrap: e.currentTarget.value })}
+                                />
+                            </td>
+                            <td style={styles.td}>
+                                <input style={styles.input} value={rule.unwrapTemplate} placeholder="$1://$2$3" onChange={e => update(i, { unwrapTemplate: e.currentTarget.value })} />
+                            </td>
+                            <td style={styles.td}>
+                                <button style={styles.btn} onClick={() => move(i, -1)} disabled={i === 0}>↑</button>
+                                {" "}
+                                <button style={styles.btnDanger} onClick={() => save(rules.filter((_, j) => j !== i))}>✕</button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+function HostRuleTester() {
+    const [url, setUrl] = React.useState("");
+    const trimmed = url.trim();
+    const normalized = trimmed && normalizeUrl(trimmed);
+    const unwrapped = normalized && engine.extractProxiedUrl(normalized);
+    const matched = normalized ? engine.matchHostRule(hostOf(normalized)) : null;
+    const upstreamMatched = unwrapped ? engine.matchHostRule(hostOf(unwrapped)) : null;
+    const describe = (match: ReturnType<GifCacheEngine["matchHostRule"]>) => match ? `#${match.index + 1} ${match.rule.host} (${match.rule.action})` : "none (allow)";
+
+    return (
+        <div>
+            <input style={styles.input} value={url} placeholder="Paste a GIF URL to see how the host rules treat it" onChange={e => setUrl(e.currentTarget.value)} />
+            {normalized && (
+                <table style={styles.table}>
+                    <tbody>
+                        <tr><td style={styles.td}>Normalized</td><td style={styles.td}>{normalized}</td></tr>
+                        <tr><td style={styles.td}>Rule</td><td style={styles.td}>{describe(matched)}</td></tr>
+                        <tr><td style={styles.td}>Unwrapped</td><td style={styles.td}>{unwrapped || "—"}</td></tr>
+                        {unwrapped && <tr><td style={styles.td}>Upstream rule</td><td style={styles.td}>{describe(upstreamMatched)}</td></tr>}
+                        <tr><td style={styles.td}>Cache key</td><td style={styles.td}>{engine.canonicalUrl(normalized)}</td></tr>
+                        <tr><td style={styles.td}>Size limit</td><td style={styles.td}>{engine.hostByteLimit(normalized) ? formatBytes(engine.hostByteLimit(normalized)) : "none"}</td></tr>
+                        <tr>
+                            <td style={styles.td}>Cacheable</td>
+                            <td style={styles.td}>{engine.isCacheable(normalized) ? <b style={styles.diagOk}>yes</b> : <b style={styles.diagBad}>no</b>}</td>
+                        </tr>
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
+
+interface ChartSeries { label: string; color: string; value(stats: DailyStats): number; }
+
+function StatsChart({ title, days, series, format }: { title: string; days: DailyStats[]; series: ChartSeries[]; format(value: number): string; }) {
+    const max = Math.max(1, ...days.map(d => series.reduce((sum, s) => sum + s.value(d), 0)));
+    return (
+        <>
+            <div style={styles.chartTitle}>
+                {title}{" "}
+                {series.length > 1 && series.map(s => (
+                    <span key={s.label} style={styles.legend}><span style={{ ...styles.swatch, background: s.color }} />{s.label}</span>
+                ))}
+            </div>
+            <div style={styles.chart}>
+                {days.map(d => (
+                    <div key={d.day} style={styles.chartColumn} title={`${d.day}\n${series.map(s => `${s.label}: ${format(s.value(d))}`).join("\n")}`}>
+                        {series.map(s => <div key={s.label} style={{ height: `${s.value(d) / max * 100}%`, background: s.color }} />)}
+                    </div>
+                ))}
+            </div>
+        </>
+    );
+}
+
+function CacheStats() {
+    const [days, setDays] = React.useState<DailyStats[] | null>(null);
+
+    React.useEffect(() => {
+        let isMounted = true;
+        getDailyStats().then(result => {
+            if (isMounted) setDays(result);
+        });
+        return () => { isMounted = false; };
+    }, []);
+
+    if (!days) return <div style={styles.empty}>Loading…</div>;
+
+    const { total, requests, hitRate } = summarizeStats(days);
+    if (!requests) return <div style={styles.empty}>No GIFs served in the last {STATS_DAYS} days.</div>;
+
+    const formatMs = (ms: number) => `${Math.round(ms)} ms`;
+
+    return (
+        <div>
+            <div style={styles.header}>
+                <span style={styles.badge}>{(hitRate * 100).toFixed(1)}% hit rate</span>
+                <span style={styles.badge}>{formatBytes(total.bytesFromCache)} served from cache</span>
+                <span style={styles.badge}>{formatBytes(total.bytesFromNetwork)} downloaded</span>
+                {total.swaps > 0 && <span style={styles.badge}>{formatMs(total.swapLatencyTotal / total.swaps)} avg swap</span>}
+            </div>
+            <div style={styles.diag}>
+                <span>Memory hits: <b>{total.memoryHits}</b></span>
+                <span>IndexedDB hits: <b>{total.dbHits}</b></span>
+                <span>Network misses: <b>{total.networkMisses}</b></span>
+                <span>Failures: <b style={total.failures ? styles.diagBad : undefined}>{total.failures}</b></span>
+                <span>Slowest swap: <b>{formatMs(total.swapLatencyMax)}</b></span>
+            </div>
+            <StatsChart
+                title="Requests per day"
+                days={days}
+                format={String}
+                series={[
+                    { label: "memory", color: "var(--brand-experiment)", value: d => d.memoryHits },
+                    { label: "IndexedDB", color: "var(--text-positive)", value: d => d.dbHits },
+                    { label: "network", color: "var(--text-warning)", value: d => d.networkMisses },
+                    { label: "failed", color: "var(--text-danger)", value: d => d.failures },
+                ]}
+            />
+            <StatsChart
+                title="Bytes per day"
+                days={days}
+                format={formatBytes}
+                series={[
+                    { label: "from cache", color: "var(--text-positive)", value: d => d.bytesFromCache },
+                    { label: "from network", color: "var(--text-warning)", value: d => d.bytesFromNetwork },
+                ]}
+            />
+            <StatsChart
+                title="Average insertion-to-swap latency"
+                days={days}
+                format={formatMs}
+                series={[{ label: "latency", color: "var(--brand-experiment)", value: d => d.swaps ? d.swapLatencyTotal / d.swaps : 0 }]}
+            />
+        </div>
+    );
+}
+
+function FailedDownloads() {
+    const [failures, setFailures] = React.useState<FailureRecord[]>([]);
+    const [busy, setBusy] = React.useState<string | null>(null);
+
+    function load() {
+        setFailures([...FAILURES.values()].sort((a, b) => b.lastFailedAt - a.lastFailedAt));
+    }
+
+    React.useEffect(load, []);
+
+    async function retry(key: string) {
+        setBusy(key);
+        await retryFailure(key);
+        setBusy(null);
+        load();
+    }
+
+    function forget(key: string) {
+        clearFailure(key);
+        load();
+    }
+
+    if (!failures.length) return <div style={styles.empty}>No failed downloads.</div>;
+
+    return (
+        <div style={styles.scroll}>
+            <table style={styles.table}>
+                <thead>
+                    <tr>
+                        <th style={styles.th}>URL</th>
+                        <th style={styles.th}>Reason</th>
+                        <th style={styles.th}>Attempts</th>
+                        <th style={styles.th}>Next retry</th>
+                        <th style={styles.th}></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {failures.map(f => (
+                        <tr key={f.url}>
+                            <td style={styles.td}>
+                                <a href={f.sourceUrl} target="_blank" rel="noreferrer" style={styles.url} title={f.url}>
+                                    {f.url.split("/").pop() ?? f.url}
+                                </a>
+                            </td>
+                            <td style={styles.td} title={f.lastError}>{f.status ? `HTTP ${f.status}` : f.lastError.slice(0, 40)}</td>
+                            <td style={styles.td}>{f.attempts}</td>
+                            <td style={styles.td}>{f.permanent ? <b style={styles.diagBad}>permanent</b> : formatDate(f.nextRetryAt)}</td>
+                            <td style={styles.td}>
+                                <button style={styles.btn} onClick={() => retry(f.url)} disabled={busy !== null}>
+                                    {busy === f.url ? "…" : "↻ Retry now"}
+                                </button>
+                                {" "}
+                                <button style={styles.btnDanger} onClick={() => forget(f.url)}>Forget</button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+export function CacheInspector() {
+    const [entries, setEntries] = React.useState<CacheEntry[]>([]);
+    const [loading, setLoading] = React.useState(false);
+    const [clearing, setClearing] = React.useState(false);
+    const [preloading, setPreloading] = React.useState(false);
+    const [transferring, setTransferring] = React.useState(false);
+    const [verifying, setVerifying] = React.useState(false);
+    const [purging, setPurging] = React.useState(false);
+    const [status, setStatus] = React.useState<string | null>(null);
+    const [quota, setQuota] = React.useState<{ usage: number; quota: number } | null>(null);
+    const [budget, setBudget] = React.useState<number | null>(null);
+    const [progress, setProgress] = React.useState<DownloadProgress>(downloads.progress);
+    const [tab, setTab] = React.useState<"cache" | "stats" | "failed" | "favorites" | "fetch" | "rules">("cache");
+    const [storeFound, setStoreFound] = React.useState(false);
+    const [cacheFolder, setCacheFolder] = React.useState<string | null>(null);
+
+    const totalSize = storedBytes(entries);
+    const favoriteCount = FAVORITE_KEYS.size;
+    const orphanCount = entries.filter(e => e.orphanedAt).length;
+
+    async function load() {
+        setLoading(true);
+        setStatus(null);
+        try {
+            const store = UserSettingsProtoStore as any;
+            if (store?.frecencyWithoutFetchingLatest?.favoriteGifs?.gifs) {
+                setStoreFound(true);
+            } else {
+                setStoreFound(false);
+            }
+        } catch {
+            setStoreFound(false);
+        }
+
+        const summary = await getCacheSummary();
+        setEntries(summary.entries.map(toCacheEntry)
+            .sort((a, b) => b.cachedAt - a.cachedAt));
+        setBudget(summary.budget);
+        setQuota(summary.quota);
+        setCacheFolder(activeBackendId === "native" ? await Native.getCacheFolder() : null);
+        setLoading(false);
+    }
+
+    async function clearCache() {
+        if (!confirm("Clear the entire GIF cache? This will re-download GIFs next time you view your favorites.")) return;
+        setClearing(true);
+        await clearAllCaches();
+        setEntries([]);
+        setClearing(false);
+        setStatus("✅ Cache cleared!");
+    }
+
+    function onRemoved(urls: string[]) {
+        const removed = new Set(urls);
+        setEntries(prev => prev.filter(e => !removed.has(e.url)));
+        setStatus(`🗑️ Deleted ${urls.length} ${urls.length === 1 ? "entry" : "entries"}`);
+    }
+
+    async function purgeOrphans() {
+        setPurging(true);
+        setStatus(null);
+        const purged = await pruneOrphans(true);
+        await load();
+        setPurging(false);
+        setStatus(`🧹 Purged ${purged} orphaned ${purged === 1 ? "GIF" : "GIFs"}`);
+    }
+
+    async function verifyIntegrity() {
+        setVerifying(true);
+        setStatus(null);
+        const { checked, corrupt, repaired } = await verifyCacheIntegrity((done, total) => setStatus(`🩺 Checked ${done}/${total}`));
+        await load();
+        setVerifying(false);
+        setStatus(corrupt ? `🩺 ${corrupt} corrupt, ${repaired} repaired` : `✅ All ${checked} entries intact`);
+    }
+
+    async function preloadNow() {
+        setPreloading(true);
+        setStatus(null);
+        await preloadAllFavorites();
+        await load();
+        setPreloading(false);
+        setStatus("✅ Preload finished");
+    }
+
+    async function exportCache() {
+        setTransferring(true);
+        setStatus(null);
+        try {
+            const { count, size } = await saveCacheArchive();
+            setStatus(`📤 Exported ${count} GIFs (${formatBytes(size)})`);
+        } catch (e) {
+            console.error("[GifFavCache] Export failed", e);
+            setStatus("❌ Export failed");
+        }
+        setTransferring(false);
+    }
+
+    async function importCache() {
+        const file = await chooseFile(ARCHIVE_EXTENSION);
+        if (!file) return;
+        setTransferring(true);
+        setStatus(null);
+        try {
+            const { imported, skipped, invalid } = await importCacheArchive(file);
+            await load();
+            setStatus(`📥 Imported ${imported}, skipped ${skipped}${invalid ? `, ${invalid} invalid` : ""}`);
+        } catch (e) {
+            console.error("[GifFavCache] Import failed", e);
+            setStatus(`❌ ${e instanceof Error ? e.message : "Import failed"}`);
+        }
+        setTransferring(false);
+    }
+
+    React.useEffect(() => downloads.onProgress(setProgress), []);
+
+    React.useEffect(() => {
+        let isMounted = true;
+        const doLoad = async () => {
+            setLoading(true);
+            setStatus(null);
+            try {
+                const store = UserSettingsProtoStore as any;
+                if (store?.frecencyWithoutFetchingLatest?.favoriteGifs?.gifs) {
+                    if (isMounted) setStoreFound(true);
+                } else {
+                    if (isMounted) setStoreFound(false);
+                }
+            } catch {
+                if (isMounted) setStoreFound(false);
+            }
+
+            const all = await db.getAllMeta();
+            if (!isMounted) return;
+            setEntries(all.map(toCacheEntry)
+                .sort((a, b) => b.cachedAt - a.cachedAt));
+            const byteBudget = await getByteBudget(storedBytes(all));
+            if (!isMounted) return;
+            setBudget(byteBudget);
+            if (navigator.storage?.estimate) {
+                try {
+                    const est = await navigator.storage.estimate();
+                    if (!isMounted) return;
+                    setQuota({ usage: est.usage ?? 0, quota: est.quota ?? 0 });
+                } catch { }
+            }
+            if (isMounted) setLoading(false);
+        };
+        doLoad();
+        return () => { isMounted = false; };
+    }, []);
+
+    return (
+        <div style={styles.wrap} data-gif-fav-cache-inspector>
+            <div style={styles.diag}>
+                <span>UserSettingsProtoStore: <b style={storeFound ? styles.diagOk : styles.diagBad}>{storeFound ? "found" : "MISSING (report this!)"}</b></span>
+                <span>Favorites detected: <b>{favoriteCount}</b></span>
+                <span>DOM watcher: <b style={mutationObserver ? styles.diagOk : styles.diagBad}>{mutationObserver ? "active" : "inactive"}</b></span>
+                {Object.entries(RENDER_PATCHES).map(([name, label]) => (
+                    <span key={name} title="URLs resolved before render this session. None means nothing rendered yet or the patch didn't match; the DOM watcher covers it either way.">
+                        {label}: <b style={PATCH_HITS.has(name) ? styles.diagOk : undefined}>{PATCH_HITS.get(name) ?? 0} resolved</b>
+                    </span>
+                ))}
+                <span>In memory: <b>{formatBytes(engine.memoryBytes())}</b> ({engine.memory.size} GIFs)</span>
+                {quota && <span>Storage used: <b>{formatBytes(quota.usage)}</b> / {formatBytes(quota.quota)}</span>}
+            </div>
+
+            <div style={styles.tabs}>
+                <button style={tab === "cache" ? styles.tabActive : styles.tab} onClick={() => setTab("cache")}>Cache</button>
+                <button style={tab === "stats" ? styles.tabActive : styles.tab} onClick={() => setTab("stats")}>Stats</button>
+                <button style={tab === "failed" ? styles.tabActive : styles.tab} onClick={() => setTab("failed")}>Failed ({FAILURES.size})</button>
+                <button style={tab === "favorites" ? styles.tabActive : styles.tab} onClick={() => setTab("favorites")}>Favorites history</button>
+                <button style={tab === "fetch" ? styles.tabActive : styles.tab} onClick={() => setTab("fetch")}>Fetch strategies</button>
+                <button style={tab === "rules" ? styles.tabActive : styles.tab} onClick={() => setTab("rules")}>Host rules</button>
+            </div>
+
+            {tab === "stats" && <CacheStats />}
+            {tab === "failed" && <FailedDownloads />}
+            {tab === "favorites" && <FavoritesHistory />}
+            {tab === "fetch" && <FetchStrategyStats />}
+            {tab === "rules" && <HostRuleTester />}
+
+            {tab === "cache" && <>
+                <div style={styles.header}>
+                    <span style={styles.badge}>{entries.length} GIFs cached</span>
+                    <span style={styles.badge}>{formatBytes(totalSize)} total{budget !== null && Number.isFinite(budget) && ` / ${formatBytes(budget)} budget`}</span>
+                    <button style={styles.btn} onClick={load} disabled={loading}>
+                        {loading ? "Loading…" : "↻ Refresh"}
+                    </button>
+                    <button style={styles.btn} onClick={preloadNow} disabled={preloading}>
+                        {preloading ? "Preloading…" : "⬇ Preload Now"}
+                    </button>
+                    <button style={styles.btn} onClick={verifyIntegrity} disabled={verifying || entries.length === 0}>
+                        {verifying ? "Verifying…" : "🩺 Verify"}
+                    </button>
+                    <button style={styles.btn} onClick={purgeOrphans} disabled={purging || orphanCount === 0}>
+                        {purging ? "Purging…" : `🧹 Purge orphans (${orphanCount})`}
+                    </button>
+                    <button style={styles.btn} onClick={exportCache} disabled={transferring || entries.length === 0}>
+                        📤 Export
+                    </button>
+                    <button style={styles.btn} onClick={importCache} disabled={transferring}>
+                        📥 Import
+                    </button>
+                    {cacheFolder && (
+                        <button style={styles.btn} onClick={() => Native.openCacheFolder()} title={cacheFolder}>
+                            📂 Open folder
+                        </button>
+                    )}
+                    <button style={styles.btnDanger} onClick={clearCache} disabled={clearing || entries.length === 0}>
+                        {clearing ? "Clearing…" : "🗑 Clear All"}
+                    </button>
+                    {status && <span style={styles.status}>{status}</span>}
+                </div>
+
+                {progress.active + progress.queued > 0 && (
+                    <div style={styles.progress}>
+                        <div style={styles.progressTrack}>
+                            <div style={{ ...styles.progressFill, width: `${(progress.completed + progress.failed) / Math.max(1, progress.total) * 100}%` }} />
+                        </div>
+                        <span>
+                            {progress.completed + progress.failed}/{progress.total} downloaded · {progress.active} active
+                            {progress.failed > 0 && <> · <b style={styles.diagBad}>{progress.failed} failed</b></>}
+                        </span>
+                    </div>
+                )}
+
+                {entries.length === 0 && !loading
+                    ? <div style={styles.empty}>No cached GIFs yet. Click "Preload Now" or open your GIF picker!</div>
+                    : <CacheBrowser entries={entries} onRemoved={onRemoved} onChanged={load} />
+                }
+            </>}
+        </div>
+    );
+}
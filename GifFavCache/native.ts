@@ -0,0 +1,161 @@
+import { RendererSettings } from "@main/settings";
+import { createHash } from "crypto";
+import { app, IpcMainInvokeEvent, shell } from "electron";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+
+import { DEFAULT_HOST_RULES, HostRule, matchHostRule } from "./engine";
+
+const MAX_BYTES = 64 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const MEDIA_HOSTS = /^(?:(?:media|c)\.tenor\.com|(?:i|media\d*)\.giphy\.com|i\.imgur\.com|(?:cdn|media|images-ext-\d+)\.discordapp\.(?:com|net))$/;
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+const INDEX_FILE = "index.json";
+const EXTENSIONS: Record<string, string> = {
+    "image/gif": "gif",
+    "image/png": "png",
+    "image/jpeg": "jpg",
+    "image/webp": "webp",
+    "image/avif": "avif",
+    "video/mp4": "mp4",
+    "video/webm": "webm",
+};
+
+export interface NativeFetchResult { status: number; contentType: string; data?: Uint8Array; error?: string; }
+export interface NativeBlobEntry { hash: string; mimeType: string; size: number; cachedAt: number; urls: string[]; sources?: Record<string, string>; }
+
+function isAllowedHost(host: string): boolean {
+    const rules: HostRule[] = RendererSettings.store.plugins?.GifFavCache?.hostRules ?? DEFAULT_HOST_RULES;
+    const match = matchHostRule(rules, host);
+    return match ? match.rule.action === "allow" : MEDIA_HOSTS.test(host);
+}
+
+export async function fetchMedia(_: IpcMainInvokeEvent, url: string): Promise<NativeFetchResult> {
+    let target: URL;
+    try {
+        target = new URL(url);
+    } catch {
+        return { status: 0, contentType: "", error: "Invalid URL" };
+    }
+    if (target.protocol !== "https:") return { status: 0, contentType: "", error: "Only https URLs are allowed" };
+    if (!isAllowedHost(target.hostname)) return { status: 0, contentType: "", error: `Host ${target.hostname} is not allowed` };
+
+    try {
+        let res = await fetch(target, { redirect: "manual" });
+        for (let redirects = 0; res.status >= 300 && res.status < 400; redirects++) {
+            const location = res.headers.get("location");
+            if (!location) break;
+            const next = new URL(location, target);
+            if (next.protocol !== "https:" || next.hostname !== target.hostname) return { status: res.status, contentType: "", error: `Redirect to ${next.hostname} rejected` };
+            if (redirects >= MAX_REDIRECTS) return { status: res.status, contentType: "", error: "Too many redirects" };
+            target = next;
+            res = await fetch(target, { redirect: "manual" });
+        }
+        const contentType = res.headers.get("content-type") ?? "";
+        if (!res.ok) return { status: res.status, contentType };
+        if (Number(res.headers.get("content-length")) > MAX_BYTES) return { status: res.status, contentType, error: "Response too large" };
+
+        const data = new Uint8Array(await res.arrayBuffer());
+        if (data.byteLength > MAX_BYTES) return { status: res.status, contentType, error: "Response too large" };
+        return { status: res.status, contentType, data };
+    } catch (e) {
+        return { status: 0, contentType: "", error: String(e) };
+    }
+}
+
+const cacheDir = join(app.getPath("appData"), "EquicordGifFavCache");
+let index: Record<string, NativeBlobEntry> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+    const next = queue.then(task, task);
+    queue = next.catch(() => { });
+    return next;
+}
+
+function blobPath(entry: NativeBlobEntry): string {
+    return join(cacheDir, `${entry.hash}.${EXTENSIONS[entry.mimeType] ?? "bin"}`);
+}
+
+async function loadIndex(): Promise<Record<string, NativeBlobEntry>> {
+    if (index) return index;
+    await mkdir(cacheDir, { recursive: true });
+    try {
+        index = JSON.parse(await readFile(join(cacheDir, INDEX_FILE), "utf8"));
+    } catch {
+        index = {};
+    }
+    return index!;
+}
+
+async function saveIndex() {
+    await writeFile(join(cacheDir, INDEX_FILE), JSON.stringify(index));
+}
+
+export function getCacheFolder(): string {
+    return cacheDir;
+}
+
+export async function openCacheFolder(): Promise<void> {
+    await mkdir(cacheDir, { recursive: true });
+    await shell.openPath(cacheDir);
+}
+
+export function readBlob(_: IpcMainInvokeEvent, hash: string): Promise<{ mimeType: string; data: Uint8Array; } | null> {
+    return serialized(async () => {
+        const entry = (await loadIndex())[hash];
+        if (!entry) return null;
+        try {
+            return { mimeType: entry.mimeType, data: new Uint8Array(await readFile(blobPath(entry))) };
+        } catch {
+            return null;
+        }
+    });
+}
+
+export function hasBlob(_: IpcMainInvokeEvent, hash: string): Promise<boolean> {
+    return serialized(async () => hash in await loadIndex());
+}
+
+export function writeBlob(_: IpcMainInvokeEvent, hash: string, data: Uint8Array, mimeType: string, url: string, sourceUrl?: string): Promise<void> {
+    return serialized(async () => {
+        if (!HASH_PATTERN.test(hash)) throw new Error("Invalid hash");
+        if (data.byteLength > MAX_BYTES) throw new Error("Blob too large");
+        if (createHash("sha256").update(data).digest("hex") !== hash) throw new Error("Hash mismatch");
+
+        const entries = await loadIndex();
+        let entry = entries[hash];
+        if (entry) {
+            if (!entry.urls.includes(url)) entry.urls.push(url);
+        } else {
+            entry = { hash, mimeType, size: data.byteLength, cachedAt: Date.now(), urls: [url] };
+            await writeFile(blobPath(entry), data);
+            entries[hash] = entry;
+        }
+        if (sourceUrl) entry.sources = { ...entry.sources, [url]: sourceUrl };
+        await saveIndex();
+    });
+}
+
+export function deleteBlob(_: IpcMainInvokeEvent, hash: string): Promise<void> {
+    return serialized(async () => {
+        const entries = await loadIndex();
+        const entry = entries[hash];
+        if (!entry) return;
+        await rm(blobPath(entry), { force: true });
+        delete entries[hash];
+        await saveIndex();
+    });
+}
+
+export function listBlobs(): Promise<NativeBlobEntry[]> {
+    return serialized(async () => Object.values(await loadIndex()));
+}
+
+export function clearBlobs(): Promise<void> {
+    return serialized(async () => {
+        for (const entry of Object.values(await loadIndex())) await rm(blobPath(entry), { force: true });
+        index = {};
+        await saveIndex();
+    });
+}
@@ -0,0 +1,115 @@
+import { DownloadLane, Fetcher, FetchResult, isAbortError } from "./engine";
+
+export const DOWNLOAD_LANES: DownloadLane[] = ["visible", "frequent", "background"];
+
+interface DownloadJob {
+    key: string;
+    rawUrl: string;
+    lane: DownloadLane;
+    controller: AbortController;
+    promise: Promise<FetchResult>;
+    resolve(result: FetchResult): void;
+    reject(error: unknown): void;
+}
+
+export interface DownloadProgress { total: number; completed: number; failed: number; active: number; queued: number; }
+
+export interface DownloadQueueOptions {
+    concurrency(): number;
+    download(rawUrl: string, signal: AbortSignal): Promise<FetchResult>;
+    paused?(): boolean;
+}
+
+export class DownloadQueue implements Fetcher {
+    private readonly lanes: Record<DownloadLane, DownloadJob[]> = { visible: [], frequent: [], background: [] };
+    private readonly queued = new Map<string, DownloadJob>();
+    private readonly active = new Map<string, DownloadJob>();
+    private readonly listeners = new Set<(progress: DownloadProgress) => void>();
+
+    progress: DownloadProgress = { total: 0, completed: 0, failed: 0, active: 0, queued: 0 };
+
+    constructor(private readonly options: DownloadQueueOptions) { }
+
+    private emit() {
+        this.progress = { ...this.progress, active: this.active.size, queued: this.queued.size };
+        for (const listener of this.listeners) listener(this.progress);
+    }
+
+    onProgress(listener: (progress: DownloadProgress) => void): () => void {
+        this.listeners.add(listener);
+        listener(this.progress);
+        return () => this.listeners.delete(listener);
+    }
+
+    fetch(key: string, rawUrl: string, lane: DownloadLane): Promise<FetchResult> {
+        const active = this.active.get(key);
+        if (active) return active.promise;
+
+        const queued = this.queued.get(key);
+        if (queued) {
+            this.promote(key, lane);
+            return queued.promise;
+        }
+
+        if (!this.active.size && !this.queued.size) {
+            this.progress = { total: 0, completed: 0, failed: 0, active: 0, queued: 0 };
+        }
+
+        const job = { key, rawUrl, lane, controller: new AbortController() } as DownloadJob;
+        job.promise = new Promise((resolve, reject) => {
+            job.resolve = resolve;
+            job.reject = reject;
+        });
+        this.lanes[lane].push(job);
+        this.queued.set(key, job);
+        this.progress.total++;
+        this.pump();
+        return job.promise;
+    }
+
+    promote(key: string, lane: DownloadLane) {
+        const job = this.queued.get(key);
+        if (!job || DOWNLOAD_LANES.indexOf(lane) >= DOWNLOAD_LANES.indexOf(job.lane)) return;
+        const queue = this.lanes[job.lane];
+        queue.splice(queue.indexOf(job), 1);
+        job.lane = lane;
+        this.lanes[lane].push(job);
+    }
+
+    pump() {
+        const concurrency = Math.max(1, this.options.concurrency());
+        while (!this.options.paused?.() && this.active.size < concurrency) {
+            const lane = DOWNLOAD_LANES.find(l => this.lanes[l].length);
+            if (!lane) break;
+            const job = this.lanes[lane].shift()!;
+            this.queued.delete(job.key);
+            this.active.set(job.key, job);
+            this.run(job);
+        }
+        this.emit();
+    }
+
+    private async run(job: DownloadJob) {
+        try {
+            job.resolve(await this.options.download(job.rawUrl, job.controller.signal));
+            this.progress.completed++;
+        } catch (e) {
+            job.reject(e);
+            if (!isAbortError(e)) this.progress.failed++;
+        } finally {
+            if (this.active.get(job.key) === job) this.active.delete(job.key);
+            this.pump();
+        }
+    }
+
+    cancelAll() {
+        const reason = new DOMException("Download cancelled", "AbortError");
+        for (const job of this.queued.values()) job.reject(reason);
+        for (const job of this.active.values()) job.controller.abort(reason);
+        for (const lane of DOWNLOAD_LANES) this.lanes[lane].length = 0;
+        this.queued.clear();
+        this.active.clear();
+        this.progress = { total: 0, completed: 0, failed: 0, active: 0, queued: 0 };
+        this.emit();
+    }
+}
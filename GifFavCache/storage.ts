@@ -0,0 +1,731 @@
+import { EngineStorage, HOUR, MetaEntry } from "./engine";
+
+const DB_NAME = "EquicordGifFavCache";
+const DB_VERSION = 8;
+const LEGACY_BLOB_STORE = "gifs";
+const BLOB_STORE = "blobs";
+const META_STORE = "meta";
+const POSTER_STORE = "posters";
+const SNAPSHOT_STORE = "favoriteSnapshots";
+const MAX_FAVORITE_SNAPSHOTS = 100;
+const FAILURE_STORE = "failures";
+const STATS_STORE = "dailyStats";
+const CACHE_STORAGE_NAME = "EquicordGifFavCache";
+const CACHE_STORAGE_ORIGIN = "https://gif-fav-cache.invalid/";
+
+export const STATS_DAYS = 30;
+
+interface BlobEntry { hash: string; blob: Blob; }
+interface LegacyBlobEntry { url: string; blob: Blob; }
+interface PosterEntry { hash: string; still: Blob; }
+
+export interface FavoriteRecord { key: string; src: string; width: number; height: number; format: number; order: number; }
+export interface FavoritesSnapshot { id?: number; version: number; takenAt: number; favorites: FavoriteRecord[]; }
+
+export interface FailureRecord { url: string; sourceUrl: string; lastError: string; status?: number; attempts: number; firstFailedAt: number; lastFailedAt: number; nextRetryAt: number; permanent: boolean; }
+
+export interface DailyStats {
+    day: string;
+    memoryHits: number;
+    dbHits: number;
+    networkMisses: number;
+    failures: number;
+    bytesFromCache: number;
+    bytesFromNetwork: number;
+    swaps: number;
+    swapLatencyTotal: number;
+    swapLatencyMax: number;
+}
+
+export type StorageBackendId = "indexeddb" | "cacheStorage" | "native";
+
+export interface RecoveredBlob { hash: string; mimeType: string; size: number; cachedAt: number; urls: string[]; sources?: Record<string, string>; }
+
+export interface GifStorageBackend {
+    readonly id: StorageBackendId;
+    readonly label: string;
+    available(): boolean;
+    get(hash: string): Promise<Blob | null>;
+    has(hash: string): Promise<boolean>;
+    put(hash: string, blob: Blob, url: string, sourceUrl?: string): Promise<void>;
+    delete(hash: string): Promise<void>;
+    clear(): Promise<void>;
+    recover?(): Promise<RecoveredBlob[]>;
+}
+
+export interface DatabaseOptions {
+    name?: string;
+    backend(): GifStorageBackend;
+    isFavorite(key: string): boolean;
+    isPinned(key: string): boolean;
+    lock?<T>(key: string, task: () => Promise<T>): Promise<T>;
+    writeLock?<T>(exclusive: boolean, task: () => Promise<T>): Promise<T>;
+}
+
+export async function sha256(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function statsDay(ts: number): string {
+    return new Date(ts).toLocaleDateString("en-CA");
+}
+
+export function emptyStats(day: string): DailyStats {
+    return { day, memoryHits: 0, dbHits: 0, networkMisses: 0, failures: 0, bytesFromCache: 0, bytesFromNetwork: 0, swaps: 0, swapLatencyTotal: 0, swapLatencyMax: 0 };
+}
+
+export function mergeStats(a: DailyStats, b: DailyStats): DailyStats {
+    return {
+        day: a.day,
+        memoryHits: a.memoryHits + b.memoryHits,
+        dbHits: a.dbHits + b.dbHits,
+        networkMisses: a.networkMisses + b.networkMisses,
+        failures: a.failures + b.failures,
+        bytesFromCache: a.bytesFromCache + b.bytesFromCache,
+        bytesFromNetwork: a.bytesFromNetwork + b.bytesFromNetwork,
+        swaps: a.swaps + b.swaps,
+        swapLatencyTotal: a.swapLatencyTotal + b.swapLatencyTotal,
+        swapLatencyMax: Math.max(a.swapLatencyMax, b.swapLatencyMax),
+    };
+}
+
+function migrateToSplitStores(tx: IDBTransaction) {
+    const blobs = tx.objectStore(LEGACY_BLOB_STORE);
+    const meta = tx.objectStore(META_STORE);
+    const cursorReq = blobs.openCursor();
+    cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) {
+            for (const name of [...blobs.indexNames]) blobs.deleteIndex(name);
+            return;
+        }
+        const legacy = cursor.value as { url: string; blob?: Blob; cachedAt?: number; lastAccessed?: number; hits?: number; };
+        if (legacy.blob) {
+            const cachedAt = legacy.cachedAt ?? Date.now();
+            meta.put({
+                url: legacy.url,
+                size: legacy.blob.size,
+                mimeType: legacy.blob.type,
+                cachedAt,
+                lastAccessed: legacy.lastAccessed ?? cachedAt,
+                hits: legacy.hits ?? 0,
+                favorite: 0,
+            } satisfies MetaEntry);
+            cursor.update({ url: legacy.url, blob: legacy.blob } satisfies LegacyBlobEntry);
+        } else {
+            cursor.delete();
+        }
+        cursor.continue();
+    };
+}
+
+function openCacheStorage(): Promise<Cache> {
+    return caches.open(CACHE_STORAGE_NAME);
+}
+
+export const cacheStorageBackend: GifStorageBackend = {
+    id: "cacheStorage",
+    label: "Cache Storage",
+    available: () => typeof caches !== "undefined",
+    async get(hash) {
+        const res = await (await openCacheStorage()).match(CACHE_STORAGE_ORIGIN + hash);
+        return res ? res.blob() : null;
+    },
+    has: async hash => !!await (await openCacheStorage()).match(CACHE_STORAGE_ORIGIN + hash),
+    async put(hash, blob, url, sourceUrl) {
+        await (await openCacheStorage()).put(CACHE_STORAGE_ORIGIN + hash, new Response(blob, {
+            headers: {
+                "Content-Type": blob.type,
+                "Content-Length": String(blob.size),
+                "Date": new Date().toUTCString(),
+                "X-Gif-Source": sourceUrl ?? url,
+            },
+        }));
+    },
+    delete: async hash => { await (await openCacheStorage()).delete(CACHE_STORAGE_ORIGIN + hash); },
+    clear: async () => { await caches.delete(CACHE_STORAGE_NAME); },
+};
+
+export class GifCacheDatabase implements EngineStorage {
+    private instance: IDBDatabase | null = null;
+    private opening: Promise<IDBDatabase> | null = null;
+    private held: Promise<unknown> | null = null;
+    private readonly writes = new Set<Promise<unknown>>();
+
+    readonly blobs: GifStorageBackend = {
+        id: "indexeddb",
+        label: "IndexedDB",
+        available: () => typeof indexedDB !== "undefined",
+        get: async hash => (await this.blobStoreRequest<BlobEntry | undefined>("readonly", store => store.get(hash)))?.blob ?? null,
+        has: async hash => await this.blobStoreRequest<IDBValidKey | undefined>("readonly", store => store.getKey(hash)) !== undefined,
+        put: async (hash, blob) => { await this.blobStoreRequest("readwrite", store => store.put({ hash, blob } satisfies BlobEntry)); },
+        delete: async hash => { await this.blobStoreRequest("readwrite", store => store.delete(hash)); },
+        clear: async () => { await this.blobStoreRequest("readwrite", store => store.clear()); },
+    };
+
+    constructor(private readonly options: DatabaseOptions) { }
+
+    private withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+        return this.options.lock ? this.options.lock(key, task) : task();
+    }
+
+    private closeConnection(db: IDBDatabase) {
+        db.close();
+        if (this.instance !== db) return;
+        this.instance = null;
+        this.opening = null;
+    }
+
+    close() {
+        if (this.instance) this.closeConnection(this.instance);
+    }
+
+    open(): Promise<IDBDatabase> {
+        if (this.instance) return Promise.resolve(this.instance);
+        if (this.opening) return this.opening;
+
+        this.opening = new Promise((resolve, reject) => {
+            const req = indexedDB.open(this.options.name ?? DB_NAME, DB_VERSION);
+            req.onupgradeneeded = e => {
+                const db = req.result;
+                const tx = req.transaction!;
+                if (!db.objectStoreNames.contains(LEGACY_BLOB_STORE)) db.createObjectStore(LEGACY_BLOB_STORE, { keyPath: "url" });
+                if (!db.objectStoreNames.contains(BLOB_STORE)) db.createObjectStore(BLOB_STORE, { keyPath: "hash" });
+                if (!db.objectStoreNames.contains(POSTER_STORE)) db.createObjectStore(POSTER_STORE, { keyPath: "hash" });
+                const meta = db.objectStoreNames.contains(META_STORE)
+                    ? tx.objectStore(META_STORE)
+                    : db.createObjectStore(META_STORE, { keyPath: "url" });
+                for (const index of ["size", "mimeType", "cachedAt", "lastAccessed", "favorite", "hash"]) {
+                    if (!meta.indexNames.contains(index)) meta.createIndex(index, index, { unique: false });
+                }
+                if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+                    db.createObjectStore(SNAPSHOT_STORE, { keyPath: "id", autoIncrement: true })
+                        .createIndex("takenAt", "takenAt", { unique: false });
+                }
+                if (!db.objectStoreNames.contains(FAILURE_STORE)) {
+                    db.createObjectStore(FAILURE_STORE, { keyPath: "url" })
+                        .createIndex("nextRetryAt", "nextRetryAt", { unique: false });
+                }
+                if (!db.objectStoreNames.contains(STATS_STORE)) db.createObjectStore(STATS_STORE, { keyPath: "day" });
+                if (e.oldVersion > 0 && e.oldVersion < 3) {
+                    console.log(`[GifFavCache] Migrating cache database v${e.oldVersion} -> v${DB_VERSION}`);
+                    migrateToSplitStores(tx);
+                }
+            };
+            req.onsuccess = () => {
+                const db = req.result;
+                db.onversionchange = e => {
+                    console.log(`[GifFavCache] Another window is ${e.newVersion === null ? "deleting" : "upgrading"} the cache database, closing this connection`);
+                    this.closeConnection(db);
+                };
+                db.onclose = () => this.closeConnection(db);
+                this.instance = db;
+                resolve(db);
+            };
+            req.onerror = () => {
+                this.opening = null;
+                if (req.error?.name === "VersionError") {
+                    console.warn("[GifFavCache] A newer version of the plugin upgraded the cache database. Restart this window to keep using the cache.");
+                }
+                reject(req.error);
+            };
+            req.onblocked = () => {
+                console.warn("[GifFavCache] IndexedDB open blocked");
+            };
+        });
+        return this.opening;
+    }
+
+    private async blobStoreRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(BLOB_STORE, mode);
+            const req = run(tx.objectStore(BLOB_STORE));
+            tx.oncomplete = () => resolve(req.result as T);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    private withWriteLock<T>(exclusive: boolean, task: () => Promise<T>): Promise<T> {
+        return this.options.writeLock ? this.options.writeLock(exclusive, task) : task();
+    }
+
+    private async write<T>(task: (backend: GifStorageBackend) => Promise<T>): Promise<T> {
+        while (this.held) await this.held.catch(() => { });
+        const write = this.withWriteLock(false, () => task(this.options.backend()));
+        this.writes.add(write);
+        try {
+            return await write;
+        } finally {
+            this.writes.delete(write);
+        }
+    }
+
+    async holdWrites<T>(task: () => Promise<T>): Promise<T> {
+        while (this.held) await this.held.catch(() => { });
+        const held = Promise.allSettled(this.writes).then(() => this.withWriteLock(true, task));
+        this.held = held;
+        try {
+            return await held;
+        } finally {
+            this.held = null;
+        }
+    }
+
+    async getMeta(url: string): Promise<MetaEntry | undefined> {
+        try {
+            const db = await this.open();
+            return await new Promise((resolve, reject) => {
+                const tx = db.transaction(META_STORE, "readonly");
+                const req = tx.objectStore(META_STORE).get(url);
+                req.onsuccess = () => resolve(req.result as MetaEntry | undefined);
+                req.onerror = () => reject(req.error);
+            });
+        } catch {
+            return undefined;
+        }
+    }
+
+    async getBlob(url: string): Promise<Blob | undefined> {
+        try {
+            const db = await this.open();
+            const { hash, legacy } = await new Promise<{ hash?: string; legacy?: Blob; }>((resolve, reject) => {
+                const tx = db.transaction([META_STORE, LEGACY_BLOB_STORE], "readonly");
+                const metaReq = tx.objectStore(META_STORE).get(url);
+                metaReq.onsuccess = () => {
+                    const hash = (metaReq.result as MetaEntry | undefined)?.hash;
+                    if (hash) return resolve({ hash });
+                    const legacyReq = tx.objectStore(LEGACY_BLOB_STORE).get(url);
+                    legacyReq.onsuccess = () => resolve({ legacy: (legacyReq.result as LegacyBlobEntry | undefined)?.blob });
+                    legacyReq.onerror = () => reject(legacyReq.error);
+                };
+                metaReq.onerror = () => reject(metaReq.error);
+            });
+            return hash ? await this.options.backend().get(hash) ?? undefined : legacy;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async has(url: string): Promise<boolean> {
+        return !!(await this.getMeta(url))?.hash;
+    }
+
+    private async countHashRefs(hash: string): Promise<number> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const req = db.transaction(META_STORE, "readonly").objectStore(META_STORE).index("hash").count(hash);
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+    }
+
+    private releaseBlob(hash: string): Promise<void> {
+        return this.write(backend => this.withLock(`blob:${hash}`, async () => {
+            if (await this.countHashRefs(hash)) return;
+            await backend.delete(hash);
+            const db = await this.open();
+            db.transaction(POSTER_STORE, "readwrite").objectStore(POSTER_STORE).delete(hash);
+        })).catch(e => console.warn("[GifFavCache] Failed to release blob", hash, e));
+    }
+
+    async put(url: string, blob: Blob, overrides: Partial<MetaEntry> = {}): Promise<void> {
+        try {
+            const hash = await sha256(blob);
+            const db = await this.open();
+            const replaced = await this.write(backend => this.withLock(`blob:${hash}`, async () => {
+                if (!await backend.has(hash)) await backend.put(hash, blob, url, overrides.sourceUrl);
+                return this.putMeta(db, url, hash, blob, overrides);
+            }));
+            if (replaced) await this.releaseBlob(replaced);
+        } catch (e) {
+            console.error("[GifFavCache] dbPut failed", e);
+            throw e;
+        }
+    }
+
+    private putMeta(db: IDBDatabase, url: string, hash: string, blob: Blob, overrides: Partial<MetaEntry>): Promise<string | undefined> {
+        const now = Date.now();
+        return new Promise((resolve, reject) => {
+            let replaced: string | undefined;
+            const tx = db.transaction([META_STORE, LEGACY_BLOB_STORE], "readwrite");
+            const meta = tx.objectStore(META_STORE);
+            const previousReq = meta.get(url);
+            previousReq.onsuccess = () => {
+                const previous = previousReq.result as MetaEntry | undefined;
+                meta.put({
+                    cachedAt: now,
+                    lastAccessed: now,
+                    hits: 0,
+                    favorite: this.options.isFavorite(url) ? 1 : 0,
+                    pinned: this.options.isPinned(url) ? 1 : 0,
+                    ...overrides,
+                    sourceUrl: overrides.sourceUrl ?? previous?.sourceUrl,
+                    url,
+                    size: blob.size,
+                    mimeType: blob.type || overrides.mimeType || "",
+                    hash,
+                } satisfies MetaEntry);
+                if (previous?.hash && previous.hash !== hash) replaced = previous.hash;
+            };
+            tx.objectStore(LEGACY_BLOB_STORE).delete(url);
+            tx.oncomplete = () => resolve(replaced);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    async delete(url: string): Promise<void> {
+        try {
+            const db = await this.open();
+            let released: string | undefined;
+            await new Promise<void>((resolve, reject) => {
+                const tx = db.transaction([META_STORE, LEGACY_BLOB_STORE], "readwrite");
+                const meta = tx.objectStore(META_STORE);
+                const req = meta.get(url);
+                req.onsuccess = () => {
+                    released = (req.result as MetaEntry | undefined)?.hash;
+                    meta.delete(url);
+                };
+                tx.objectStore(LEGACY_BLOB_STORE).delete(url);
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+            });
+            if (released) await this.releaseBlob(released);
+        } catch { }
+    }
+
+    async getPoster(hash: string): Promise<Blob | undefined> {
+        try {
+            const db = await this.open();
+            return await new Promise((resolve, reject) => {
+                const tx = db.transaction(POSTER_STORE, "readonly");
+                const req = tx.objectStore(POSTER_STORE).get(hash);
+                req.onsuccess = () => resolve((req.result as PosterEntry | undefined)?.still);
+                req.onerror = () => reject(req.error);
+            });
+        } catch {
+            return undefined;
+        }
+    }
+
+    async putPoster(hash: string, still: Blob): Promise<void> {
+        try {
+            const db = await this.open();
+            await new Promise<void>((resolve, reject) => {
+                const tx = db.transaction(POSTER_STORE, "readwrite");
+                tx.objectStore(POSTER_STORE).put({ hash, still } satisfies PosterEntry);
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+                tx.onabort = () => reject(tx.error);
+            });
+        } catch (e) {
+            console.warn("[GifFavCache] Failed to save poster", e);
+        }
+    }
+
+    async getLegacyBlobKeys(): Promise<string[]> {
+        try {
+            const db = await this.open();
+            return await new Promise((resolve, reject) => {
+                const tx = db.transaction(LEGACY_BLOB_STORE, "readonly");
+                const req = tx.objectStore(LEGACY_BLOB_STORE).getAllKeys();
+                req.onsuccess = () => resolve(req.result as string[]);
+                req.onerror = () => reject(req.error);
+            });
+        } catch {
+            return [];
+        }
+    }
+
+    async migrateLegacyBlobs(): Promise<void> {
+        const urls = await this.getLegacyBlobKeys();
+        if (!urls.length) return;
+        console.log(`[GifFavCache] Moving ${urls.length} blobs to content-addressed storage...`);
+        for (const url of urls) {
+            const [meta, blob] = await Promise.all([this.getMeta(url), this.getBlob(url)]);
+            if (!meta || !blob) {
+                await this.delete(url);
+                continue;
+            }
+            try {
+                await this.put(url, blob, meta);
+            } catch {
+                return;
+            }
+        }
+        console.log("[GifFavCache] Blob migration complete.");
+    }
+
+    async forEachMeta(visit: (entry: MetaEntry) => void): Promise<void> {
+        try {
+            const db = await this.open();
+            await new Promise<void>((resolve, reject) => {
+                const tx = db.transaction(META_STORE, "readonly");
+                const req = tx.objectStore(META_STORE).openCursor();
+                req.onsuccess = () => {
+                    const cursor = req.result;
+                    if (!cursor) return resolve();
+                    visit(cursor.value as MetaEntry);
+                    cursor.continue();
+                };
+                req.onerror = () => reject(req.error);
+            });
+        } catch (e) {
+            console.warn("[GifFavCache] Failed to read cache metadata", e);
+        }
+    }
+
+    async getAllMeta(): Promise<MetaEntry[]> {
+        const all: MetaEntry[] = [];
+        await this.forEachMeta(entry => all.push(entry));
+        return all;
+    }
+
+    async updateMeta(urls: Iterable<string>, update: (entry: MetaEntry) => void): Promise<void> {
+        const db = await this.open();
+        await new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(META_STORE, "readwrite");
+            const store = tx.objectStore(META_STORE);
+            for (const url of urls) {
+                const req = store.get(url);
+                req.onsuccess = () => {
+                    const entry = req.result as MetaEntry | undefined;
+                    if (!entry) return;
+                    update(entry);
+                    store.put(entry);
+                };
+            }
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    async syncFavoriteFlags(markOrphans: boolean): Promise<void> {
+        try {
+            const db = await this.open();
+            const now = Date.now();
+            await new Promise<void>((resolve, reject) => {
+                const tx = db.transaction(META_STORE, "readwrite");
+                const req = tx.objectStore(META_STORE).openCursor();
+                req.onsuccess = () => {
+                    const cursor = req.result;
+                    if (!cursor) return;
+                    const entry = cursor.value as MetaEntry;
+                    const favorite = this.options.isFavorite(entry.url) ? 1 : 0;
+                    if (favorite && (!entry.favorite || entry.tier || entry.orphanedAt)) {
+                        cursor.update({ ...entry, favorite, tier: undefined, orphanedAt: undefined });
+                    } else if (!favorite && entry.favorite && markOrphans) {
+                        cursor.update({ ...entry, favorite, orphanedAt: now });
+                    }
+                    cursor.continue();
+                };
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+            });
+        } catch (e) {
+            console.warn("[GifFavCache] Failed to sync favorite flags", e);
+        }
+    }
+
+    async setPinned(url: string, pinned: boolean): Promise<boolean> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            let found = false;
+            const tx = db.transaction(META_STORE, "readwrite");
+            const meta = tx.objectStore(META_STORE);
+            const req = meta.get(url);
+            req.onsuccess = () => {
+                const entry = req.result as MetaEntry | undefined;
+                if (!entry) return;
+                found = true;
+                meta.put({ ...entry, pinned: pinned ? 1 : 0 } satisfies MetaEntry);
+            };
+            tx.oncomplete = () => resolve(found);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    async renameMeta(from: string, to: string): Promise<void> {
+        const db = await this.open();
+        await new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(META_STORE, "readwrite");
+            const meta = tx.objectStore(META_STORE);
+            const req = meta.get(from);
+            req.onsuccess = () => {
+                const entry = req.result as MetaEntry | undefined;
+                if (!entry) return;
+                meta.delete(from);
+                meta.put({ ...entry, url: to, sourceUrl: entry.sourceUrl ?? from } satisfies MetaEntry);
+            };
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    async restoreMeta(recovered: RecoveredBlob[]): Promise<number> {
+        const db = await this.open();
+        let restored = 0;
+        await new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(META_STORE, "readwrite");
+            const meta = tx.objectStore(META_STORE);
+            for (const blob of recovered) {
+                for (const url of blob.urls) {
+                    meta.put({
+                        url,
+                        size: blob.size,
+                        mimeType: blob.mimeType,
+                        cachedAt: blob.cachedAt,
+                        lastAccessed: blob.cachedAt,
+                        hits: 0,
+                        favorite: 0,
+                        hash: blob.hash,
+                        sourceUrl: blob.sources?.[url],
+                    } satisfies MetaEntry);
+                    restored++;
+                }
+            }
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+        return restored;
+    }
+
+    async addSnapshot(snapshot: FavoritesSnapshot): Promise<void> {
+        try {
+            const db = await this.open();
+            await new Promise<void>((resolve, reject) => {
+                const tx = db.transaction(SNAPSHOT_STORE, "readwrite");
+                const store = tx.objectStore(SNAPSHOT_STORE);
+                store.add(snapshot);
+                const countReq = store.count();
+                countReq.onsuccess = () => {
+                    let excess = countReq.result - MAX_FAVORITE_SNAPSHOTS;
+                    if (excess <= 0) return;
+                    const cursorReq = store.index("takenAt").openCursor();
+                    cursorReq.onsuccess = () => {
+                        const cursor = cursorReq.result;
+                        if (!cursor || excess-- <= 0) return;
+                        cursor.delete();
+                        cursor.continue();
+                    };
+                };
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+            });
+        } catch (e) {
+            console.warn("[GifFavCache] Failed to save favorites snapshot", e);
+        }
+    }
+
+    async getSnapshots(): Promise<FavoritesSnapshot[]> {
+        try {
+            const db = await this.open();
+            return await new Promise((resolve, reject) => {
+                const tx = db.transaction(SNAPSHOT_STORE, "readonly");
+                const req = tx.objectStore(SNAPSHOT_STORE).index("takenAt").getAll();
+                req.onsuccess = () => resolve((req.result as FavoritesSnapshot[]).reverse());
+                req.onerror = () => reject(req.error);
+            });
+        } catch {
+            return [];
+        }
+    }
+
+    async putFailure(record: FailureRecord): Promise<void> {
+        try {
+            const db = await this.open();
+            await new Promise<void>((resolve, reject) => {
+                const tx = db.transaction(FAILURE_STORE, "readwrite");
+                tx.objectStore(FAILURE_STORE).put(record);
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+            });
+        } catch (e) {
+            console.warn("[GifFavCache] Failed to save failure record", e);
+        }
+    }
+
+    async deleteFailure(url: string): Promise<void> {
+        try {
+            const db = await this.open();
+            await new Promise<void>((resolve, reject) => {
+                const tx = db.transaction(FAILURE_STORE, "readwrite");
+                tx.objectStore(FAILURE_STORE).delete(url);
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+            });
+        } catch { }
+    }
+
+    async getAllFailures(): Promise<FailureRecord[]> {
+        try {
+            const db = await this.open();
+            return await new Promise((resolve, reject) => {
+                const tx = db.transaction(FAILURE_STORE, "readonly");
+                const req = tx.objectStore(FAILURE_STORE).getAll();
+                req.onsuccess = () => resolve(req.result as FailureRecord[]);
+                req.onerror = () => reject(req.error);
+            });
+        } catch {
+            return [];
+        }
+    }
+
+    async addStats(pending: DailyStats[]): Promise<void> {
+        const db = await this.open();
+        const cutoff = statsDay(Date.now() - (STATS_DAYS - 1) * 24 * HOUR);
+        await new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(STATS_STORE, "readwrite");
+            const store = tx.objectStore(STATS_STORE);
+            for (const stats of pending) {
+                const req = store.get(stats.day);
+                req.onsuccess = () => {
+                    const existing = req.result as DailyStats | undefined;
+                    store.put(existing ? mergeStats(existing, stats) : stats);
+                };
+            }
+            store.delete(IDBKeyRange.upperBound(cutoff, true));
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    async getStats(): Promise<DailyStats[]> {
+        try {
+            const db = await this.open();
+            const cutoff = statsDay(Date.now() - (STATS_DAYS - 1) * 24 * HOUR);
+            return await new Promise((resolve, reject) => {
+                const tx = db.transaction(STATS_STORE, "readonly");
+                const req = tx.objectStore(STATS_STORE).getAll(IDBKeyRange.lowerBound(cutoff));
+                req.onsuccess = () => resolve(req.result as DailyStats[]);
+                req.onerror = () => reject(req.error);
+            });
+        } catch {
+            return [];
+        }
+    }
+
+    async clearAll(): Promise<void> {
+        try {
+            const db = await this.open();
+            await new Promise<void>((resolve, reject) => {
+                const tx = db.transaction([META_STORE, POSTER_STORE, LEGACY_BLOB_STORE], "readwrite");
+                tx.objectStore(META_STORE).clear();
+                tx.objectStore(POSTER_STORE).clear();
+                tx.objectStore(LEGACY_BLOB_STORE).clear();
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+            });
+            await this.write(backend => backend.clear());
+        } catch (e) {
+            console.error("[GifFavCache] dbClearAll failed", e);
+        }
+    }
+}
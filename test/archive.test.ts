@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ARCHIVE_EXTENSION, isValidArchiveEntry, packArchive, readArchiveManifest } from "../GifFavCache/archive";
+import { gif } from "./helpers";
+
+const entry = (url: string) => ({ url, mimeType: "image/gif", cachedAt: 1, lastAccessed: 2, hits: 3, favorite: true });
+
+describe("cache archives", () => {
+    it("round-trips the manifest and the blobs behind it", async () => {
+        const file = packArchive([
+            { entry: entry("https://media.tenor.com/a.gif"), blob: gif(10) },
+            { entry: { ...entry("https://example.com/b.gif"), sourceUrl: "https://example.com/b.gif?ex=1" }, blob: gif(20) },
+        ], Date.UTC(2026, 0, 2));
+        assert.equal(file.name, `gif-cache-2026-01-02${ARCHIVE_EXTENSION}`);
+
+        const { manifest, dataStart } = await readArchiveManifest(file);
+        assert.equal(manifest.exportedAt, Date.UTC(2026, 0, 2));
+        assert.deepEqual(manifest.entries.map(e => [e.url, e.offset, e.size]), [["https://media.tenor.com/a.gif", 0, 10], ["https://example.com/b.gif", 10, 20]]);
+        assert.equal(file.size, dataStart + 30);
+        for (const e of manifest.entries) assert.ok(isValidArchiveEntry(e, file.size - dataStart));
+    });
+
+    it("rejects files that are not archives", async () => {
+        await assert.rejects(readArchiveManifest(new Blob(["GFC"])), /too small/);
+        await assert.rejects(readArchiveManifest(new Blob(["NOPE\0\0\0\0{}"])), /Not a GIF cache archive/);
+        await assert.rejects(readArchiveManifest(new Blob(["GFCA\xff\0\0\0{}"])), /truncated/);
+        await assert.rejects(readArchiveManifest(new Blob(["GFCA\x02\0\0\0{]"])), /corrupt/);
+        await assert.rejects(readArchiveManifest(new Blob(["GFCA\x0d\0\0\0{\"version\":9}"])), /Unsupported archive version: 9/);
+    });
+
+    it("rejects entries that point outside the data or carry bad fields", () => {
+        const valid = { ...entry("https://media.tenor.com/a.gif"), offset: 0, size: 10 };
+        assert.ok(isValidArchiveEntry(valid, 10));
+        assert.equal(isValidArchiveEntry({ ...valid, size: 11 }, 10), false);
+        assert.equal(isValidArchiveEntry({ ...valid, offset: -1 }, 10), false);
+        assert.equal(isValidArchiveEntry({ ...valid, url: "javascript:alert(1)" }, 10), false);
+        assert.equal(isValidArchiveEntry({ ...valid, sourceUrl: "file:///etc/passwd" }, 10), false);
+        assert.equal(isValidArchiveEntry({ ...valid, hits: 1.5 }, 10), false);
+        assert.equal(isValidArchiveEntry(null, 10), false);
+    });
+});
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { JSDOM } from "jsdom";
+
+import { PARKED_SRC } from "../GifFavCache/engine";
+import { createEngine, gif, MemoryStorage } from "./helpers";
+
+const SRC = "https://cdn.discordapp.com/attachments/1/2/cat.gif?ex=1";
+const KEY = "https://cdn.discordapp.com/attachments/1/2/cat.gif";
+
+function setup() {
+    const { document } = new JSDOM("<!doctype html><body></body>").window;
+    const img = document.createElement("img");
+    img.setAttribute("src", SRC);
+    document.body.append(img);
+    const storage = new MemoryStorage();
+    const engine = createEngine({ storage, elements: () => document.querySelectorAll("img, video") });
+    return { document, img, storage, engine };
+}
+
+describe("element swapping", () => {
+    it("swaps displayed elements to the cached object URL and remembers the original", async () => {
+        const { img, storage, engine } = setup();
+        const objUrl = await engine.cache(SRC, "visible", undefined, "image");
+
+        assert.ok(objUrl?.startsWith("blob:"));
+        assert.equal(img.getAttribute("src"), objUrl);
+        assert.equal(engine.originalSrc(img), SRC);
+        assert.equal(storage.meta.get(KEY)?.sourceUrl, SRC);
+    });
+
+    it("parks and revives offscreen images", async () => {
+        const { img, engine } = setup();
+        const objUrl = await engine.cache(SRC, "visible", undefined, "image");
+
+        assert.equal(engine.park(img), true);
+        assert.equal(img.getAttribute("src"), PARKED_SRC);
+        await engine.revive(img);
+        assert.equal(img.getAttribute("src"), objUrl);
+    });
+
+    it("revives from storage after the object URL was released", async () => {
+        const { img, engine } = setup();
+        await engine.cache(SRC, "visible", undefined, "image");
+        engine.park(img);
+        engine.release(KEY);
+        assert.equal(engine.memory.size, 0);
+
+        await engine.revive(img);
+        assert.equal(img.getAttribute("src"), engine.memory.get(KEY));
+    });
+
+    it("does not park elements it never swapped", () => {
+        const { document, engine } = setup();
+        const foreign = document.createElement("img");
+        foreign.setAttribute("src", "blob:elsewhere/1");
+        assert.equal(engine.park(foreign), false);
+        assert.equal(foreign.getAttribute("src"), "blob:elsewhere/1");
+    });
+
+    it("restores original sources when swapping everything back", async () => {
+        const { img, engine } = setup();
+        await engine.cache(SRC, "visible", undefined, "image");
+        engine.park(img);
+        engine.swapAllToOriginal();
+        assert.equal(img.getAttribute("src"), SRC);
+    });
+
+    it("serves stored blobs without fetching", async () => {
+        const { img, storage } = setup();
+        await storage.put(KEY, gif(), { sourceUrl: SRC });
+        const engine = createEngine({
+            storage,
+            elements: () => [img],
+            fetcher: { fetch: () => Promise.reject(new Error("should not fetch")) },
+        });
+        assert.ok(await engine.cache(SRC, "visible", undefined, "image"));
+    });
+
+    it("does not read stored blobs for background requests nothing displays", async () => {
+        const storage = new MemoryStorage();
+        await storage.put(KEY, gif(), { sourceUrl: SRC });
+        let reads = 0;
+        const getBlob = storage.getBlob.bind(storage);
+        storage.getBlob = key => {
+            reads++;
+            return getBlob(key);
+        };
+        const engine = createEngine({ storage, fetcher: { fetch: () => Promise.reject(new Error("should not fetch")) } });
+        assert.equal(await engine.cache(SRC, "background"), null);
+        assert.equal(reads, 0);
+    });
+});
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { HOUR } from "../GifFavCache/engine";
+import { createEngine, gif, MemoryStorage, meta } from "./helpers";
+
+const NOW = 1_000 * HOUR;
+
+function seed(storage: MemoryStorage, ...entries: ReturnType<typeof meta>[]) {
+    for (const entry of entries) {
+        storage.meta.set(entry.url, entry);
+        storage.blobs.set(entry.url, gif(entry.size));
+    }
+}
+
+describe("eviction", () => {
+    it("evicts the least recently used entries down to the entry limit", async () => {
+        const storage = new MemoryStorage();
+        seed(storage,
+            meta("https://example.com/old.gif", 100, NOW - 48 * HOUR),
+            meta("https://example.com/mid.gif", 100, NOW - 2 * HOUR),
+            meta("https://example.com/new.gif", 100, NOW),
+        );
+        const engine = createEngine({ storage, now: NOW, policy: { maxEntries: () => 2 } });
+
+        assert.equal(await engine.prune(), true);
+        assert.deepEqual([...storage.meta.keys()].sort(), ["https://example.com/mid.gif", "https://example.com/new.gif"]);
+    });
+
+    it("never evicts pinned entries", async () => {
+        const storage = new MemoryStorage();
+        seed(storage,
+            meta("https://example.com/pinned.gif", 100, NOW - 100 * HOUR),
+            meta("https://example.com/recent.gif", 100, NOW),
+        );
+        const engine = createEngine({
+            storage,
+            now: NOW,
+            policy: { maxEntries: () => 1, isPinned: key => key === "https://example.com/pinned.gif" },
+        });
+
+        await engine.prune();
+        assert.deepEqual([...storage.meta.keys()], ["https://example.com/pinned.gif"]);
+    });
+
+    it("frees shared blobs only once every key using them is evicted", async () => {
+        const storage = new MemoryStorage();
+        seed(storage,
+            meta("https://example.com/a.gif", 400, NOW - 10 * HOUR, { hash: "same" }),
+            meta("https://example.com/b.gif", 400, NOW - 9 * HOUR, { hash: "same" }),
+            meta("https://example.com/c.gif", 400, NOW, { hash: "other" }),
+        );
+        const engine = createEngine({ storage, now: NOW, policy: { byteBudget: async () => 500 } });
+
+        assert.equal(await engine.prune(), true);
+        assert.deepEqual([...storage.meta.keys()], ["https://example.com/c.gif"]);
+    });
+
+    it("refuses downloads larger than the whole budget", async () => {
+        const storage = new MemoryStorage();
+        seed(storage, meta("https://example.com/a.gif", 100, NOW));
+        const engine = createEngine({ storage, now: NOW, policy: { byteBudget: async () => 1_000 } });
+
+        assert.equal(await engine.prune(5_000), false);
+        assert.equal(storage.meta.size, 1);
+    });
+});
+
+describe("orphan and seen-tier pruning", () => {
+    it("only reports orphans that expired and are neither favorited again nor pinned", () => {
+        const engine = createEngine({
+            now: NOW,
+            policy: {
+                isFavorite: key => key === "https://example.com/refavorited.gif",
+                isPinned: key => key === "https://example.com/pinned.gif",
+            },
+        });
+        const entries = [
+            meta("https://example.com/expired.gif", 100, NOW, { orphanedAt: NOW - 10 * HOUR }),
+            meta("https://example.com/fresh.gif", 100, NOW, { orphanedAt: NOW - HOUR }),
+            meta("https://example.com/refavorited.gif", 100, NOW, { orphanedAt: NOW - 10 * HOUR }),
+            meta("https://example.com/pinned.gif", 100, NOW, { orphanedAt: NOW - 10 * HOUR }),
+            meta("https://example.com/kept.gif", 100, NOW),
+        ];
+
+        assert.deepEqual(engine.expiredOrphans(entries, NOW - 5 * HOUR).map(entry => entry.url), ["https://example.com/expired.gif"]);
+    });
+
+    it("drops seen-tier entries past their TTL and leaves favorites alone", async () => {
+        const storage = new MemoryStorage();
+        seed(storage,
+            meta("https://example.com/stale.gif", 100, NOW - 30 * HOUR, { tier: "seen" }),
+            meta("https://example.com/recent.gif", 100, NOW - HOUR, { tier: "seen" }),
+            meta("https://example.com/favorite.gif", 100, NOW - 30 * HOUR),
+        );
+        const engine = createEngine({ storage, now: NOW });
+
+        await engine.pruneSeenTier(await storage.getAllMeta(), 24 * HOUR, Infinity);
+        assert.deepEqual([...storage.meta.keys()].sort(), ["https://example.com/favorite.gif", "https://example.com/recent.gif"]);
+    });
+
+    it("evicts the oldest seen-tier entries until the tier fits its byte limit", async () => {
+        const storage = new MemoryStorage();
+        seed(storage,
+            meta("https://example.com/a.gif", 300, NOW - 3 * HOUR, { tier: "seen" }),
+            meta("https://example.com/b.gif", 300, NOW - 2 * HOUR, { tier: "seen" }),
+            meta("https://example.com/c.gif", 300, NOW - HOUR, { tier: "seen" }),
+            meta("https://example.com/favorite.gif", 5_000, NOW - 10 * HOUR),
+        );
+        const engine = createEngine({ storage, now: NOW });
+
+        await engine.pruneSeenTier(await storage.getAllMeta(), 24 * HOUR, 400);
+        assert.deepEqual([...storage.meta.keys()].sort(), ["https://example.com/c.gif", "https://example.com/favorite.gif"]);
+    });
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { FetchError, FetchStrategy, MediaFetcher, sniffMediaType, validateMedia } from "../GifFavCache/fetcher";
+
+function media(header: string | number[], trailer: number[], type = "", size = 32): Blob {
+    const bytes = new Uint8Array(size);
+    bytes.set(typeof header === "string" ? [...header].map(c => c.charCodeAt(0)) : header);
+    bytes.set(trailer, size - trailer.length);
+    return new Blob([bytes], { type });
+}
+
+const validGif = () => media("GIF89a", [0x3B]);
+
+function strategy(name: string, result: () => Blob | Error, calls: string[] = [], target: (url: string) => string | null = url => url): FetchStrategy {
+    return {
+        name,
+        native: false,
+        target,
+        async fetch(url) {
+            calls.push(`${name} ${url}`);
+            const value = result();
+            if (value instanceof Error) throw value;
+            return value;
+        },
+    };
+}
+
+describe("validateMedia", () => {
+    it("recognises media by its magic bytes and fixes the content type", async () => {
+        const blob = await validateMedia(media("GIF89a", [0x3B], "application/octet-stream"));
+        assert.equal(blob.type, "image/gif");
+        assert.equal(await sniffMediaType(media([0x1A, 0x45, 0xDF, 0xA3], [])), "video/webm");
+        assert.equal(await sniffMediaType(media([0, 0, 0, 0x20, ..."ftypisom"].map(c => typeof c === "string" ? c.charCodeAt(0) : c), [])), "video/mp4");
+    });
+
+    it("rejects empty, unknown and truncated responses", async () => {
+        await assert.rejects(validateMedia(new Blob([])), /Empty response/);
+        await assert.rejects(validateMedia(new Blob(["<html></html>"], { type: "text/html" })), /Not an image or video \(text\/html\)/);
+        await assert.rejects(validateMedia(media("GIF89a", [0x00])), /Truncated image\/gif/);
+        await assert.rejects(validateMedia(media([0xFF, 0xD8, 0xFF], [0xFF, 0x00])), /Truncated image\/jpeg/);
+    });
+});
+
+describe("MediaFetcher", () => {
+    it("falls back to the next strategy and skips duplicate targets", async () => {
+        const calls: string[] = [];
+        const fetcher = new MediaFetcher({
+            strategies: [
+                strategy("direct", () => new FetchError("HTTP 403", 403), calls),
+                strategy("duplicate", validGif, calls),
+                strategy("proxy", validGif, calls, url => `https://proxy.test/?${url}`),
+            ],
+            hostByteLimit: () => 0,
+        });
+
+        const result = await fetcher.fetch("https://media.tenor.com/a/b.gif", new AbortController().signal);
+        assert.equal(result.strategy, "proxy");
+        assert.deepEqual(calls, ["direct https://media.tenor.com/a/b.gif", "proxy https://proxy.test/?https://media.tenor.com/a/b.gif"]);
+        assert.equal(fetcher.winners.get("media.tenor.com"), "proxy");
+        assert.deepEqual(fetcher.attempts.get("media.tenor.com")?.get("direct"), { ok: 0, failed: 1, lastError: "HTTP 403" });
+    });
+
+    it("tries the last winning strategy for a host first", async () => {
+        const calls: string[] = [];
+        let directFails = true;
+        const fetcher = new MediaFetcher({
+            strategies: [
+                strategy("direct", () => directFails ? new Error("blocked") : validGif(), calls),
+                strategy("proxy", validGif, calls, url => `https://proxy.test/?${url}`),
+            ],
+            hostByteLimit: () => 0,
+        });
+        const { signal } = new AbortController();
+
+        await fetcher.fetch("https://media.tenor.com/a.gif", signal);
+        directFails = false;
+        calls.length = 0;
+        await fetcher.fetch("https://media.tenor.com/b.gif", signal);
+        assert.deepEqual(calls, ["proxy https://proxy.test/?https://media.tenor.com/b.gif"]);
+    });
+
+    it("reports every failure with the last HTTP status", async () => {
+        const fetcher = new MediaFetcher({
+            strategies: [
+                strategy("direct", () => new FetchError("HTTP 404", 404)),
+                strategy("proxy", () => new Blob(["nope"]), [], url => `https://proxy.test/?${url}`),
+            ],
+            hostByteLimit: () => 0,
+        });
+
+        await assert.rejects(fetcher.fetch("https://media.tenor.com/a.gif", new AbortController().signal), (e: unknown) => {
+            assert.ok(e instanceof FetchError);
+            assert.equal(e.status, 404);
+            assert.equal(e.permanent, false);
+            assert.match(e.message, /direct: HTTP 404; proxy: Not an image or video/);
+            return true;
+        });
+    });
+
+    it("refuses media over the host's byte limit permanently", async () => {
+        const fetcher = new MediaFetcher({
+            strategies: [strategy("direct", () => media("GIF89a", [0x3B], "", 2048))],
+            hostByteLimit: url => url.includes("tenor") ? 1024 : 0,
+        });
+
+        await assert.rejects(fetcher.fetch("https://media.tenor.com/a.gif", new AbortController().signal), (e: unknown) =>
+            e instanceof FetchError && e.permanent && /exceeds the 1(\.0)? KB limit for media\.tenor\.com/.test(e.message));
+    });
+
+    it("stops when the request is aborted", async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const calls: string[] = [];
+        const fetcher = new MediaFetcher({ strategies: [strategy("direct", validGif, calls)], hostByteLimit: () => 0 });
+
+        await assert.rejects(fetcher.fetch("https://media.tenor.com/a.gif", controller.signal), { name: "AbortError" });
+        assert.deepEqual(calls, []);
+    });
+});
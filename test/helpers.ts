@@ -0,0 +1,73 @@
+import { CachePolicy, DEFAULT_HOST_RULES, DomAdapter, EngineStorage, Fetcher, GifCacheEngine, MediaElement, MediaFormat, MetaEntry } from "../GifFavCache/engine";
+
+export class MemoryStorage implements EngineStorage {
+    readonly blobs = new Map<string, Blob>();
+    readonly meta = new Map<string, MetaEntry>();
+
+    async getBlob(key: string): Promise<Blob | undefined> {
+        return this.blobs.get(key);
+    }
+
+    async has(key: string): Promise<boolean> {
+        return this.blobs.has(key);
+    }
+
+    async put(key: string, blob: Blob, overrides: Partial<MetaEntry>): Promise<void> {
+        this.blobs.set(key, blob);
+        this.meta.set(key, { cachedAt: 0, lastAccessed: 0, hits: 0, favorite: 0, ...overrides, url: key, size: blob.size, mimeType: blob.type });
+    }
+
+    async delete(key: string): Promise<void> {
+        this.blobs.delete(key);
+        this.meta.delete(key);
+    }
+
+    async getAllMeta(): Promise<MetaEntry[]> {
+        return [...this.meta.values()];
+    }
+}
+
+export function gif(bytes = 16): Blob {
+    return new Blob([new Uint8Array(bytes)], { type: "image/gif" });
+}
+
+export function meta(url: string, size: number, lastAccessed: number, extra: Partial<MetaEntry> = {}): MetaEntry {
+    return { url, size, mimeType: "image/gif", cachedAt: lastAccessed, lastAccessed, hits: 0, favorite: 0, ...extra };
+}
+
+export interface TestEngineOptions {
+    storage?: EngineStorage;
+    fetcher?: Fetcher;
+    elements?: () => Iterable<MediaElement>;
+    policy?: Partial<CachePolicy>;
+    preferredFormat?: MediaFormat;
+    now?: number;
+}
+
+export function createEngine(options: TestEngineOptions = {}): GifCacheEngine {
+    let nextObjectUrl = 0;
+    const dom: DomAdapter = {
+        mediaElements: options.elements ?? (() => []),
+        createObjectUrl: () => `blob:test/${++nextObjectUrl}`,
+        revokeObjectUrl: () => { },
+    };
+    return new GifCacheEngine({
+        storage: options.storage ?? new MemoryStorage(),
+        fetcher: options.fetcher ?? { fetch: async () => ({ blob: gif(), strategy: "direct" }) },
+        clock: { now: () => options.now ?? Date.now() },
+        dom,
+        policy: {
+            maxEntries: () => 100,
+            byteBudget: async () => Infinity,
+            isFavorite: () => false,
+            isPinned: () => false,
+            isBackedOff: () => false,
+            lastAccessed: entry => entry.lastAccessed,
+            tierWeight: () => 1,
+            memoryBudget: () => Infinity,
+            ...options.policy,
+        },
+        hostRules: () => DEFAULT_HOST_RULES,
+        preferredFormat: () => options.preferredFormat ?? "gif",
+    });
+}
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { kindOfKey, kindVariantBase, storedBytes, variantFamilyKey } from "../GifFavCache/engine";
+import { createEngine } from "./helpers";
+
+const TENOR_GIF = "https://media.tenor.com/AbCdEfGhIjKAAAAC/funny-cat.gif";
+const TENOR_MP4 = "https://media.tenor.com/AbCdEfGhIjKAAAPo/funny-cat.mp4";
+const TENOR_FAMILY = "https://media.tenor.com/AbCdEfGhIjK/funny-cat";
+
+describe("canonicalUrl", () => {
+    const engine = createEngine();
+
+    it("collapses every Tenor format into one family key", () => {
+        assert.equal(variantFamilyKey(TENOR_GIF), TENOR_FAMILY);
+        assert.equal(engine.canonicalUrl(TENOR_GIF), TENOR_FAMILY);
+        assert.equal(engine.canonicalUrl(TENOR_MP4), TENOR_FAMILY);
+        assert.equal(engine.canonicalUrl("https://c.tenor.com/AbCdEfGhIjKAAAAC/funny-cat.gif"), TENOR_FAMILY);
+    });
+
+    it("unwraps Discord's media proxy", () => {
+        assert.equal(engine.canonicalUrl("https://images-ext-1.discordapp.net/external/abc123/https/example.com/cat.gif"), "https://example.com/cat.gif");
+    });
+
+    it("drops signed and volatile query parameters", () => {
+        assert.equal(engine.canonicalUrl("https://cdn.discordapp.com/attachments/1/2/cat.gif?ex=1&is=2&hm=3"), "https://cdn.discordapp.com/attachments/1/2/cat.gif");
+        assert.equal(engine.canonicalUrl("//cdn.discordapp.com/attachments/1/2/cat.gif"), "https://cdn.discordapp.com/attachments/1/2/cat.gif");
+    });
+
+    it("keeps the size of resized media", () => {
+        assert.equal(
+            engine.canonicalUrl("https://media.discordapp.net/attachments/1/2/cat.gif?width=200&ex=1&height=100"),
+            "https://media.discordapp.net/attachments/1/2/cat.gif?height=100&width=200"
+        );
+    });
+});
+
+describe("keyFor", () => {
+    it("uses the family key when the preferred format fits the element", () => {
+        const engine = createEngine({ preferredFormat: "mp4" });
+        assert.equal(engine.keyFor(TENOR_GIF, "video"), TENOR_FAMILY);
+        assert.equal(engine.keyFor(TENOR_GIF), TENOR_FAMILY);
+    });
+
+    it("keeps a separate key for the other element kind", () => {
+        const mp4 = createEngine({ preferredFormat: "mp4" });
+        assert.equal(mp4.keyFor(TENOR_GIF, "image"), `${TENOR_FAMILY}#image`);
+        const gif = createEngine({ preferredFormat: "gif" });
+        assert.equal(gif.keyFor(TENOR_MP4, "video"), `${TENOR_FAMILY}#video`);
+        assert.equal(kindOfKey(`${TENOR_FAMILY}#video`), "video");
+        assert.equal(kindVariantBase(`${TENOR_FAMILY}#video`), TENOR_FAMILY);
+    });
+
+    it("leaves URLs without format variants alone", () => {
+        const engine = createEngine({ preferredFormat: "gif" });
+        assert.equal(engine.keyFor("https://example.com/clip.mp4", "video"), "https://example.com/clip.mp4");
+    });
+});
+
+describe("storedBytes", () => {
+    it("counts shared blobs once", () => {
+        assert.equal(storedBytes([{ size: 10, hash: "a" }, { size: 10, hash: "a" }, { size: 5 }]), 15);
+    });
+});
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+
+import { isAbortError } from "../GifFavCache/engine";
+import { DownloadQueue } from "../GifFavCache/queue";
+
+let server: Server;
+let base: string;
+let requests: string[] = [];
+let releaseBlocker: () => void = () => { };
+let blocked = Promise.resolve();
+
+before(async () => {
+    server = createServer(async (req, res) => {
+        requests.push(req.url!);
+        if (req.url === "/blocker") await blocked;
+        res.writeHead(200, { "Content-Type": "image/gif" });
+        res.end(req.url);
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    releaseBlocker();
+    server.closeAllConnections();
+    server.close();
+});
+
+beforeEach(() => {
+    requests = [];
+    blocked = new Promise(resolve => releaseBlocker = resolve);
+});
+
+function createQueue(concurrency = 1, paused = () => false): DownloadQueue {
+    return new DownloadQueue({
+        concurrency: () => concurrency,
+        paused,
+        async download(rawUrl, signal) {
+            const res = await fetch(rawUrl, { signal });
+            return { blob: await res.blob(), strategy: "direct" };
+        },
+    });
+}
+
+describe("DownloadQueue", () => {
+    it("downloads visible before frequent before background", async () => {
+        const queue = createQueue();
+        const blocker = queue.fetch("blocker", `${base}/blocker`, "background");
+        const jobs = [
+            queue.fetch("b", `${base}/background`, "background"),
+            queue.fetch("f", `${base}/frequent`, "frequent"),
+            queue.fetch("v", `${base}/visible`, "visible"),
+        ];
+        releaseBlocker();
+        await Promise.all([blocker, ...jobs]);
+        assert.deepEqual(requests, ["/blocker", "/visible", "/frequent", "/background"]);
+    });
+
+    it("promotes queued jobs, including when the same key is requested again", async () => {
+        const queue = createQueue();
+        const blocker = queue.fetch("blocker", `${base}/blocker`, "visible");
+        const first = queue.fetch("one", `${base}/one`, "background");
+        const second = queue.fetch("two", `${base}/two`, "background");
+        const third = queue.fetch("three", `${base}/three`, "background");
+        queue.promote("three", "frequent");
+        assert.equal(queue.fetch("two", `${base}/two`, "visible"), second);
+        releaseBlocker();
+        await Promise.all([blocker, first, second, third]);
+        assert.deepEqual(requests, ["/blocker", "/two", "/three", "/one"]);
+    });
+
+    it("runs up to the configured number of downloads at once", async () => {
+        const queue = createQueue(2);
+        const blocker = queue.fetch("blocker", `${base}/blocker`, "visible");
+        const other = queue.fetch("other", `${base}/other`, "visible");
+        assert.equal(queue.progress.active, 2);
+        assert.equal(await (await other).blob.text(), "/other");
+        releaseBlocker();
+        await blocker;
+        assert.deepEqual({ ...queue.progress }, { total: 2, completed: 2, failed: 0, active: 0, queued: 0 });
+    });
+
+    it("waits while paused", async () => {
+        let paused = true;
+        const queue = createQueue(1, () => paused);
+        const job = queue.fetch("a", `${base}/a`, "visible");
+        await new Promise(resolve => setTimeout(resolve, 20));
+        assert.deepEqual(requests, []);
+        paused = false;
+        queue.pump();
+        await job;
+        assert.deepEqual(requests, ["/a"]);
+    });
+
+    it("cancels queued and running downloads", async () => {
+        const queue = createQueue();
+        const running = queue.fetch("blocker", `${base}/blocker`, "visible");
+        const queued = queue.fetch("a", `${base}/a`, "visible");
+        queue.cancelAll();
+        const results = await Promise.allSettled([running, queued]);
+        for (const result of results) {
+            assert.equal(result.status, "rejected");
+            assert.ok(isAbortError(result.reason));
+        }
+        assert.equal(queue.progress.total, 0);
+    });
+});
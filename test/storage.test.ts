@@ -0,0 +1,159 @@
+import "fake-indexeddb/auto";
+
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+
+import { DatabaseOptions, GifCacheDatabase, sha256 } from "../GifFavCache/storage";
+import { gif } from "./helpers";
+
+let opened = 0;
+const databases: GifCacheDatabase[] = [];
+
+function openDatabase(pinned = new Set<string>(), writeLock?: DatabaseOptions["writeLock"]): GifCacheDatabase {
+    const db: GifCacheDatabase = new GifCacheDatabase({
+        name: `GifFavCacheTest${++opened}`,
+        backend: () => db.blobs,
+        isFavorite: () => false,
+        isPinned: key => pinned.has(key),
+        writeLock,
+    });
+    databases.push(db);
+    return db;
+}
+
+afterEach(() => {
+    for (const db of databases.splice(0)) db.close();
+});
+
+describe("GifCacheDatabase", () => {
+    it("stores a blob with its metadata", async () => {
+        const db = openDatabase(new Set(["https://media.tenor.com/a/b.gif"]));
+        const blob = gif(32);
+        await db.put("https://media.tenor.com/a/b.gif", blob, { sourceUrl: "https://c.tenor.com/a/b.gif" });
+
+        const stored = await db.getBlob("https://media.tenor.com/a/b.gif");
+        assert.equal(stored?.size, 32);
+        assert.equal(stored?.type, "image/gif");
+
+        const entry = await db.getMeta("https://media.tenor.com/a/b.gif");
+        assert.equal(entry?.hash, await sha256(blob));
+        assert.equal(entry?.sourceUrl, "https://c.tenor.com/a/b.gif");
+        assert.equal(entry?.pinned, 1);
+    });
+
+    it("shares identical blobs between keys and frees them with the last reference", async () => {
+        const db = openDatabase();
+        const blob = gif(64);
+        const hash = await sha256(blob);
+        await db.put("https://example.com/one.gif", blob);
+        await db.put("https://example.com/two.gif", blob);
+
+        await db.delete("https://example.com/one.gif");
+        assert.ok(await db.blobs.has(hash));
+        assert.equal((await db.getBlob("https://example.com/two.gif"))?.size, 64);
+
+        await db.delete("https://example.com/two.gif");
+        assert.equal(await db.blobs.has(hash), false);
+        assert.deepEqual(await db.getAllMeta(), []);
+    });
+
+    it("keeps the source URL and releases the old blob when a key is overwritten", async () => {
+        const db = openDatabase();
+        const first = gif(8);
+        await db.put("https://example.com/a.gif", first, { sourceUrl: "https://example.com/a.gif?ex=1" });
+        await db.put("https://example.com/a.gif", gif(12));
+
+        const entry = await db.getMeta("https://example.com/a.gif");
+        assert.equal(entry?.size, 12);
+        assert.equal(entry?.sourceUrl, "https://example.com/a.gif?ex=1");
+        assert.equal(await db.blobs.has(await sha256(first)), false);
+    });
+
+    it("pins and renames entries", async () => {
+        const db = openDatabase();
+        await db.put("https://example.com/old.gif", gif());
+
+        assert.equal(await db.setPinned("https://example.com/missing.gif", true), false);
+        assert.equal(await db.setPinned("https://example.com/old.gif", true), true);
+        await db.renameMeta("https://example.com/old.gif", "https://example.com/new.gif");
+
+        const entry = await db.getMeta("https://example.com/new.gif");
+        assert.equal(entry?.pinned, 1);
+        assert.equal(entry?.sourceUrl, "https://example.com/old.gif");
+        assert.equal(await db.getMeta("https://example.com/old.gif"), undefined);
+    });
+
+    it("holds writes until the held task finishes", async () => {
+        const db = openDatabase();
+        const order: string[] = [];
+        let finish!: () => void;
+        const held = db.holdWrites(async () => {
+            order.push("held");
+            await new Promise<void>(resolve => finish = resolve);
+            order.push("released");
+        });
+        const write = db.put("https://example.com/late.gif", gif()).then(() => order.push("write"));
+
+        await new Promise(resolve => setTimeout(resolve, 20));
+        assert.equal(await db.getMeta("https://example.com/late.gif"), undefined);
+        finish();
+        await Promise.all([held, write]);
+        assert.deepEqual(order, ["held", "released", "write"]);
+    });
+
+    it("takes the shared write lock for writes and the exclusive one while holding", async () => {
+        const modes: string[] = [];
+        const db = openDatabase(new Set(), (exclusive, task) => {
+            modes.push(exclusive ? "exclusive" : "shared");
+            return task();
+        });
+        await db.put("https://example.com/a.gif", gif());
+        await db.holdWrites(async () => { });
+        assert.deepEqual(modes, ["shared", "exclusive"]);
+    });
+});
+
+describe("GifCacheDatabase upgrades", () => {
+    function createV2Database(name: string, rows: object[]): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const req = indexedDB.open(name, 2);
+            req.onupgradeneeded = () => {
+                const store = req.result.createObjectStore("gifs", { keyPath: "url" });
+                store.createIndex("lastAccessed", "lastAccessed", { unique: false });
+                for (const row of rows) store.put(row);
+            };
+            req.onsuccess = () => {
+                req.result.close();
+                resolve();
+            };
+            req.onerror = () => reject(req.error);
+        });
+    }
+
+    it("splits a v2 database into metadata and content-addressed blobs", async () => {
+        const name = `GifFavCacheTest${++opened}`;
+        const blob = gif(24);
+        await createV2Database(name, [
+            { url: "https://media.tenor.com/a/b.gif", blob, cachedAt: 100, lastAccessed: 200, hits: 3 },
+            { url: "https://media.tenor.com/broken.gif" },
+        ]);
+
+        const db: GifCacheDatabase = new GifCacheDatabase({ name, backend: () => db.blobs, isFavorite: () => false, isPinned: () => false });
+        databases.push(db);
+
+        const entry = await db.getMeta("https://media.tenor.com/a/b.gif");
+        assert.equal(entry?.size, 24);
+        assert.equal(entry?.cachedAt, 100);
+        assert.equal(entry?.lastAccessed, 200);
+        assert.equal(entry?.hits, 3);
+        assert.equal(entry?.hash, undefined);
+        assert.equal((await db.getBlob("https://media.tenor.com/a/b.gif"))?.size, 24);
+        assert.deepEqual((await db.getAllMeta()).map(e => e.url), ["https://media.tenor.com/a/b.gif"]);
+
+        await db.migrateLegacyBlobs();
+        assert.equal((await db.getMeta("https://media.tenor.com/a/b.gif"))?.hash, await sha256(blob));
+        assert.equal(await db.blobs.has(await sha256(blob)), true);
+        assert.equal((await db.getBlob("https://media.tenor.com/a/b.gif"))?.size, 24);
+        assert.deepEqual(await db.getLegacyBlobKeys(), []);
+    });
+});